@@ -1,8 +1,42 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Camera, RefreshCw, Zap, Mic, RotateCcw, StopCircle, SwitchCamera, AlertTriangle, X, CheckCircle } from 'lucide-react';
-import { analyzeSketch, interpretVoiceCommand } from './services/geminiService';
-import SimulationCanvas from './components/SimulationCanvas';
-import { AppMode, PhysicsState, SceneConfig } from './types';
+import { Camera, RefreshCw, Zap, Mic, RotateCcw, StopCircle, SwitchCamera, AlertTriangle, X, CheckCircle, Download, Upload, Library, Share2, Pencil, Check, WifiOff, ImagePlus, Play, Scan, Plus, ArrowLeft } from 'lucide-react';
+import { analyzeSketch, analyzeSketchAdditions, interpretTextCommand, interpretVoiceCommand } from './services/geminiService';
+import { DEFAULT_PHYSICS, createSceneDocument, downloadSceneDocument, parseSceneDocument } from './services/sceneDocument';
+import SimulationCanvas, { SimulationHandle, TimelineStatus } from './components/SimulationCanvas';
+import PlaybackControls from './components/PlaybackControls';
+import CommandBar from './components/CommandBar';
+import HistoryControls from './components/HistoryControls';
+import WarningsPanel from './components/WarningsPanel';
+import SceneLibrary from './components/SceneLibrary';
+import SketchCropper from './components/SketchCropper';
+import ReviewOverlay from './components/ReviewOverlay';
+import ReviewPanel from './components/ReviewPanel';
+import BodyInspector from './components/BodyInspector';
+import OverlayControls from './components/OverlayControls';
+import DataCapture from './components/DataCapture';
+import LiveChart from './components/LiveChart';
+import { createLibraryId, saveScene } from './services/sceneLibrary';
+import { buildShareUrl, decodeSceneFragment } from './services/shareLink';
+import { validateBody } from './services/sceneValidator';
+import { createConversationTurn } from './services/conversationContext';
+import { DEFAULT_OVERLAYS } from './services/measurements';
+import { createDataRecorder } from './services/dataRecorder';
+import { CropRect, SKETCH_GUIDE, findImageFile, loadImageFile } from './services/imageImport';
+import { ImageSize, coverCrop, innerCrop, mirrorCrop } from './services/frameTransform';
+import { findPaperCorners, flattenPaper } from './services/paperCalibration';
+import { WORLD_HEIGHT_PX, WORLD_WIDTH_PX } from './services/units';
+import { useSceneHistory } from './hooks/useSceneHistory';
+import { AppMode, BodyDef, CommandLogEntry, ConstraintDef, ConversationTurn, LibraryEntry, MeasurementOverlays, PhysicsState, PlotRequest, Point, SceneConfig, SceneDocument, ValidationWarning, VoiceCommandResponse } from './types';
+
+// The chart keeps every dynamic body's samples for as long as the timeline can rewind (~30 s)
+const PLOT_HISTORY_SECONDS = 30;
+const DEFAULT_PLOT: PlotRequest = { quantity: 'height', bodyIds: [] };
+
+const createPlotRecorder = () => {
+  const recorder = createDataRecorder({ maxDuration: PLOT_HISTORY_SECONDS });
+  recorder.start();
+  return recorder;
+};
 
 // Helper to encode Audio Blob to Base64
 const blobToBase64 = (blob: Blob): Promise<string> => {
@@ -18,10 +52,24 @@ const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
-const DEFAULT_PHYSICS: PhysicsState = {
-  gravity: { x: 0, y: 9.81 },
-  timeScale: 1,
-  enableCollisionEffects: true,
+// Library autosave waits for edits to settle before writing to IndexedDB
+const LIBRARY_SAVE_DELAY_MS = 500;
+
+type LibraryMeta = Pick<LibraryEntry, 'id' | 'name' | 'createdAt' | 'thumbnail'>;
+
+// Review mode: arrow keys nudge the selected detection by 1 px (10 with Shift)
+const NUDGE_KEYS: Record<string, Point> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+// Half the width (or height) of an outline, for turning it into a circle or box
+const extentOf = (vertices: Point[] | undefined, axis: keyof Point): number | undefined => {
+  if (!vertices || vertices.length === 0) return undefined;
+  const values = vertices.map(v => v[axis]);
+  return (Math.max(...values) - Math.min(...values)) / 2;
 };
 
 // Polyfill for SpeechRecognition types
@@ -36,14 +84,50 @@ type ToastType = 'error' | 'success';
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.CAMERA);
+  // The canvas stays mounted while editing; only input handling changes
+  const showsScene = mode === AppMode.SIMULATION || mode === AppMode.EDIT;
   const [sceneConfig, setSceneConfig] = useState<SceneConfig | null>(null);
   const [physicsState, setPhysicsState] = useState<PhysicsState>(DEFAULT_PHYSICS);
   const [loadingMsg, setLoadingMsg] = useState<string>('');
+
+  // Latest values for handlers created in older renders (e.g. mediaRecorder.onstop)
+  const sceneConfigRef = useRef<SceneConfig | null>(sceneConfig);
+  sceneConfigRef.current = sceneConfig;
+  const physicsStateRef = useRef<PhysicsState>(physicsState);
+  physicsStateRef.current = physicsState;
+
+  // Undo/Redo
+  const history = useSceneHistory();
+
+  // Playback
+  const simulationRef = useRef<SimulationHandle>(null);
+  const [timeline, setTimeline] = useState<TimelineStatus>({ isPaused: false, frame: 0, frameCount: 0, time: 0 });
+  // Bumped when a whole scene is loaded so the canvas rebuilds instead of diffing
+  const [sceneKey, setSceneKey] = useState(0);
   
+  // Velocity/acceleration/force overlays (view settings, not part of the scene or undo history)
+  const [overlays, setOverlays] = useState<MeasurementOverlays>(DEFAULT_OVERLAYS);
+  // Per-tick samples for export; cleared whenever a different scene is loaded
+  const recorderRef = useRef(createDataRecorder());
+  // Live chart: what it shows, and samples of every body to draw it from
+  const [plot, setPlot] = useState<PlotRequest>(DEFAULT_PLOT);
+  const plotRecorderRef = useRef(createPlotRecorder());
+
+  // What the validator repaired in the latest sketch or command result
+  const [validationWarnings, setValidationWarnings] = useState<ValidationWarning[]>([]);
+
   // Toast State
   const [toastMsg, setToastMsg] = useState<{ type: ToastType, msg: string } | null>(null);
 
   const [isCameraFlipped, setIsCameraFlipped] = useState(false);
+  // Read sketches with the in-browser recognizer instead of Gemini
+  const [offlineRecognition, setOfflineRecognition] = useState(false);
+  // Find the sheet's corners in the photo and flatten it before reading the sketch
+  const [calibratePaper, setCalibratePaper] = useState(false);
+  // Camera opened from a running scene: the next capture adds to it instead of replacing it
+  const [addingFromSketch, setAddingFromSketch] = useState(false);
+  // Whether to resume playback once the camera closes again
+  const resumeAfterAddRef = useRef(false);
   
   // Subtitles
   const [liveTranscript, setLiveTranscript] = useState<string>('');
@@ -57,6 +141,28 @@ const App: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
 
+  // Sketch image import: the picked, dropped or pasted image waiting to be cropped
+  const [importedImage, setImportedImage] = useState<HTMLImageElement | null>(null);
+  const imageFileInputRef = useRef<HTMLInputElement>(null);
+
+  // Review: the photo a fresh scene was read from, and the detections confirmed so far
+  const [reviewImage, setReviewImage] = useState<{ data: string; size: ImageSize } | null>(null);
+  const [acceptedIds, setAcceptedIds] = useState<string[]>([]);
+
+  // Library: the entry this session autosaves into, and the commands applied so far
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryMeta, setLibraryMeta] = useState<LibraryMeta | null>(null);
+  const [commandLog, setCommandLog] = useState<CommandLogEntry[]>([]);
+  // Earlier commands this session, so follow-ups like "make it bigger" resolve
+  const conversationRef = useRef<ConversationTurn[]>([]);
+
+  // Scene editor: selected body, and whether the next click connects to it
+  const [selectedBodyId, setSelectedBodyId] = useState<string | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  // Scene file import
+  const sceneFileInputRef = useRef<HTMLInputElement>(null);
+
   // Audio Refs
   const [isRecording, setIsRecording] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -127,53 +233,128 @@ const App: React.FC = () => {
     }
   }, [mode]);
 
-  const handleCapture = async () => {
-    if (!videoRef.current || !canvasRef.current) return;
+  // Reads the live camera frame, or a crop of an imported image, and sends it for analysis.
+  // Camera frames are cropped to what the guide box shows (the video is displayed with
+  // object-cover), or to the whole visible frame when the paper's corners are to be found.
+  const handleCapture = async (imported?: { image: HTMLImageElement; crop: CropRect }) => {
+    if (!canvasRef.current) return;
+    if (!imported && !videoRef.current) return;
 
-    const video = videoRef.current;
     const canvas = canvasRef.current;
-    
-    // 640px limit for speed
-    const MAX_DIMENSION = 640;
-    let width = video.videoWidth;
-    let height = video.videoHeight;
-    
-    if (width > height) {
-      if (width > MAX_DIMENSION) {
-        height = Math.round(height * (MAX_DIMENSION / width));
-        width = MAX_DIMENSION;
-      }
-    } else {
-      if (height > MAX_DIMENSION) {
-        width = Math.round(width * (MAX_DIMENSION / height));
-        height = MAX_DIMENSION;
+    const source: CanvasImageSource = imported ? imported.image : videoRef.current!;
+    const sourceWidth = imported ? imported.image.naturalWidth : videoRef.current!.videoWidth;
+    const sourceHeight = imported ? imported.image.naturalHeight : videoRef.current!.videoHeight;
+    const mirrored = isCameraFlipped && !imported;
+    const visible = coverCrop({ width: sourceWidth, height: sourceHeight }, WORLD_WIDTH_PX / WORLD_HEIGHT_PX);
+    const guided = imported ? imported.crop : innerCrop(visible, SKETCH_GUIDE);
+
+    // Draws one region of the source into the canvas, downscaled to at most 640px for speed
+    const drawRegion = (shown: CropRect) => {
+      // The viewport is mirrored when flipped; take the same region from the unmirrored frame
+      const crop = mirrored ? mirrorCrop(shown) : shown;
+      const sx = Math.round(crop.x * sourceWidth);
+      const sy = Math.round(crop.y * sourceHeight);
+      const sw = Math.max(1, Math.round(crop.width * sourceWidth));
+      const sh = Math.max(1, Math.round(crop.height * sourceHeight));
+
+      const MAX_DIMENSION = 640;
+      let width = sw;
+      let height = sh;
+      
+      if (width > height) {
+        if (width > MAX_DIMENSION) {
+          height = Math.round(height * (MAX_DIMENSION / width));
+          width = MAX_DIMENSION;
+        }
+      } else {
+        if (height > MAX_DIMENSION) {
+          width = Math.round(width * (MAX_DIMENSION / height));
+          height = MAX_DIMENSION;
+        }
       }
-    }
 
-    canvas.width = width;
-    canvas.height = height;
-    
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
       ctx.save();
-      // Apply mirroring to canvas if enabled, so simulation matches user view
-      if (isCameraFlipped) {
+      // Apply mirroring to canvas if enabled, so simulation matches user view.
+      // Imported images are never mirrored.
+      if (mirrored) {
         ctx.scale(-1, 1);
-        ctx.drawImage(video, -width, 0, width, height);
+        ctx.drawImage(source, sx, sy, sw, sh, -width, 0, width, height);
       } else {
-        ctx.drawImage(video, 0, 0, width, height);
+        // Imported images may be transparent (screenshots, PNG scans); put them on white paper
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
       }
       ctx.restore();
+      return ctx;
+    };
 
+    let ctx = drawRegion(calibratePaper && !imported ? visible : guided);
+    if (ctx && calibratePaper) {
+      const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const corners = findPaperCorners(frame);
+      if (corners) {
+        const flat = flattenPaper(frame, corners);
+        canvas.width = flat.width;
+        canvas.height = flat.height;
+        ctx.putImageData(new ImageData(flat.data, flat.width, flat.height), 0, 0);
+      } else {
+        showToast("Couldn't find the paper's corners, so the photo was read uncorrected. Try a darker background.", 'error');
+        if (!imported) ctx = drawRegion(guided);
+      }
+    }
+
+    if (ctx) {
+      // The size the providers see; their coordinates are mapped from it into the world
+      const captureSize: ImageSize = { width: canvas.width, height: canvas.height };
       const imageData = canvas.toDataURL('image/jpeg', 0.6).split(',')[1];
-      
+
+      const scene = sceneConfigRef.current;
+      if (addingFromSketch && scene) {
+        setMode(AppMode.ANALYZING);
+        setLoadingMsg(offlineRecognition ? 'Looking for new shapes offline...' : 'Gemini is looking for new shapes...');
+        try {
+          const response = await analyzeSketchAdditions(imageData, captureSize, scene, { offline: offlineRecognition });
+          setImportedImage(null);
+          leaveAddFromSketch();
+          applyCommandResponse(response, 'Add from sketch');
+        } catch (e: any) {
+          console.error(e);
+          showToast(`Add Failed: ${e.message || 'Unknown error'}. Draw the new parts clearly and try again.`, 'error');
+          setMode(AppMode.CAMERA);
+        } finally {
+          setLoadingMsg('');
+        }
+        return;
+      }
+
       setMode(AppMode.ANALYZING);
-      setLoadingMsg('Gemini is analyzing your sketch...');
+      setLoadingMsg(offlineRecognition ? 'Recognizing shapes offline...' : 'Gemini is analyzing your sketch...');
       
       try {
-        const config = await analyzeSketch(imageData);
+        const { sceneConfig: config, warnings } = await analyzeSketch(imageData, captureSize, { offline: offlineRecognition });
         setSceneConfig(config);
-        setMode(AppMode.SIMULATION);
+        setValidationWarnings(warnings);
+        setLibraryMeta({
+          id: createLibraryId(),
+          name: `Sketch ${new Date().toLocaleString()}`,
+          createdAt: new Date().toISOString(),
+          thumbnail: imageData,
+        });
+        setCommandLog([]);
+        conversationRef.current = [];
+        recorderRef.current.clear();
+        plotRecorderRef.current.start();
+        setPlot(DEFAULT_PLOT);
+        setImportedImage(null);
+        setReviewImage({ data: imageData, size: captureSize });
+        setAcceptedIds([]);
+        setSelectedBodyId(null);
+        setMode(AppMode.REVIEW);
       } catch (e: any) {
         console.error(e);
         const errorDetail = e.message || 'Unknown error';
@@ -185,6 +366,158 @@ const App: React.FC = () => {
     }
   };
 
+  // Opens a picked, dropped or pasted image in the crop step
+  const openSketchImage = async (file: File | null) => {
+    if (!file) {
+      showToast("Import Failed: no image found. Use a PNG, JPEG or similar picture.", 'error');
+      return;
+    }
+    try {
+      setImportedImage(await loadImageFile(file));
+      setShowLibrary(false);
+    } catch (err: any) {
+      console.error("Sketch import failed", err);
+      showToast(`Import Failed: ${err.message}`, 'error');
+    }
+  };
+
+  const importSketchImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+    openSketchImage(findImageFile(files));
+    // Allow re-importing the same file
+    e.target.value = '';
+  };
+
+  const dropSketchImage = (e: React.DragEvent) => {
+    e.preventDefault();
+    openSketchImage(findImageFile(e.dataTransfer.files));
+  };
+
+  // Paste a screenshot straight from the clipboard while the camera is up
+  useEffect(() => {
+    if (mode !== AppMode.CAMERA) return;
+    const onPaste = (e: ClipboardEvent) => {
+      const file = findImageFile(e.clipboardData?.items);
+      if (!file) return;
+      e.preventDefault();
+      openSketchImage(file);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [mode]);
+
+  // Merge a sanitized command result (voice or typed) into the scene and physics
+  const applyCommandResponse = (response: VoiceCommandResponse, transcript: string) => {
+    let commandExecuted = false;
+    setValidationWarnings(response.warnings || []);
+    const before = { sceneConfig: sceneConfigRef.current, physicsState: physicsStateRef.current };
+
+    if (response.physicsUpdates) {
+      setPhysicsState(prev => ({
+        ...prev,
+        ...response.physicsUpdates,
+        gravity: { ...prev.gravity, ...(response.physicsUpdates?.gravity || {}) }
+      }));
+      if (Object.keys(response.physicsUpdates).length > 0) commandExecuted = true;
+    }
+
+    // Handle Additions and Updates
+    if ((response.newBodies && response.newBodies.length > 0) || 
+        (response.newConstraints && response.newConstraints.length > 0) ||
+        (response.updatedBodies && response.updatedBodies.length > 0)) {
+      
+      setSceneConfig(prev => {
+        const currentConfig = prev || { bodies: [], constraints: [] };
+        // Ensure arrays exist
+        const safeBodies = currentConfig.bodies || [];
+        const safeConstraints = currentConfig.constraints || [];
+        
+        let updatedBodiesList = [...safeBodies];
+
+        // Process Updates (Replace existing bodies with same ID)
+        if (response.updatedBodies) {
+          response.updatedBodies.forEach(updatedBody => {
+            const index = updatedBodiesList.findIndex(b => b.id === updatedBody.id);
+            if (index !== -1) {
+              // Preserve position if not specified in update, but typically update has all fields
+              updatedBodiesList[index] = { ...updatedBodiesList[index], ...updatedBody };
+            }
+          });
+        }
+
+        return {
+          ...currentConfig,
+          bodies: [...updatedBodiesList, ...(response.newBodies || [])],
+          constraints: [...safeConstraints, ...(response.newConstraints || [])],
+        };
+      });
+      commandExecuted = true;
+    }
+
+    // Handle Removals
+    if (response.removeBodyIds && response.removeBodyIds.length > 0) {
+      setSceneConfig(prev => {
+         if (!prev) return null;
+         const idsToRemove = response.removeBodyIds || [];
+         // Defensively check for arrays before filtering
+         const safeBodies = prev.bodies || [];
+         const safeConstraints = prev.constraints || [];
+
+         return {
+           ...prev,
+           bodies: safeBodies.filter(b => !idsToRemove.includes(b.id)),
+           constraints: safeConstraints.filter(c => 
+              !idsToRemove.includes(c.bodyAId) && 
+              (!c.bodyBId || !idsToRemove.includes(c.bodyBId))
+           )
+         };
+      });
+      commandExecuted = true;
+    }
+
+    // Graphing only changes the view: no undo entry, but "now graph its speed" can follow up on it
+    if (response.plot) {
+      const { quantity, bodyIds } = response.plot;
+      setPlot(prev => ({ quantity, bodyIds: bodyIds.length > 0 ? bodyIds : prev.bodyIds }));
+    }
+
+    if (commandExecuted) {
+      history.record(response.summary || "Command", before);
+      setCommandLog(prev => [...prev, {
+        at: new Date().toISOString(),
+        transcript,
+        summary: response.summary || "Command executed.",
+      }]);
+    }
+    if (commandExecuted || response.plot) {
+      conversationRef.current = [...conversationRef.current, createConversationTurn(transcript, response)];
+    }
+
+    if (commandExecuted || response.summary) {
+       showToast(response.summary || "Command executed.", 'success');
+    } else {
+       showToast("Command not understood or no changes required.", 'error');
+    }
+  };
+
+  const submitTextCommand = async (text: string) => {
+    setToastMsg(null);
+    // Show the typed command in the subtitle overlay, like a voice transcript
+    setLiveTranscript(text);
+    latestTranscriptRef.current = text;
+    setLoadingMsg('Processing...');
+    try {
+      const response = await interpretTextCommand(text, physicsState, sceneConfig, conversationRef.current);
+      applyCommandResponse(response, text);
+    } catch (e: any) {
+      console.error("Text command failed", e);
+      showToast(e.message, 'error');
+    } finally {
+      setLoadingMsg('');
+    }
+  };
+
   const toggleRecording = async () => {
     if (isRecording) {
       // STOP RECORDING
@@ -241,85 +574,18 @@ const App: React.FC = () => {
             const fullTranscript = latestTranscriptRef.current;
             console.log("Sending Transcript:", fullTranscript);
 
-            // Pass current sceneConfig to allow removing objects
+            // Pass current sceneConfig to allow removing objects. Read through the refs: this
+            // handler was created when recording started, and the scene may have moved on since.
             const response = await interpretVoiceCommand(
                 base64Audio, 
-                physicsState, 
-                sceneConfig, 
+                physicsStateRef.current, 
+                sceneConfigRef.current, 
                 mediaRecorder.mimeType, 
-                fullTranscript
+                fullTranscript,
+                conversationRef.current
             );
             
-            let commandExecuted = false;
-
-            if (response.physicsUpdates) {
-              setPhysicsState(prev => ({
-                ...prev,
-                ...response.physicsUpdates,
-                gravity: { ...prev.gravity, ...(response.physicsUpdates?.gravity || {}) }
-              }));
-              if (Object.keys(response.physicsUpdates).length > 0) commandExecuted = true;
-            }
-
-            // Handle Additions and Updates
-            if ((response.newBodies && response.newBodies.length > 0) || 
-                (response.newConstraints && response.newConstraints.length > 0) ||
-                (response.updatedBodies && response.updatedBodies.length > 0)) {
-              
-              setSceneConfig(prev => {
-                const currentConfig = prev || { bodies: [], constraints: [] };
-                // Ensure arrays exist
-                const safeBodies = currentConfig.bodies || [];
-                const safeConstraints = currentConfig.constraints || [];
-                
-                let updatedBodiesList = [...safeBodies];
-
-                // Process Updates (Replace existing bodies with same ID)
-                if (response.updatedBodies) {
-                  response.updatedBodies.forEach(updatedBody => {
-                    const index = updatedBodiesList.findIndex(b => b.id === updatedBody.id);
-                    if (index !== -1) {
-                      // Preserve position if not specified in update, but typically update has all fields
-                      updatedBodiesList[index] = { ...updatedBodiesList[index], ...updatedBody };
-                    }
-                  });
-                }
-
-                return {
-                  ...currentConfig,
-                  bodies: [...updatedBodiesList, ...(response.newBodies || [])],
-                  constraints: [...safeConstraints, ...(response.newConstraints || [])],
-                };
-              });
-              commandExecuted = true;
-            }
-
-            // Handle Removals
-            if (response.removeBodyIds && response.removeBodyIds.length > 0) {
-              setSceneConfig(prev => {
-                 if (!prev) return null;
-                 const idsToRemove = response.removeBodyIds || [];
-                 // Defensively check for arrays before filtering
-                 const safeBodies = prev.bodies || [];
-                 const safeConstraints = prev.constraints || [];
-
-                 return {
-                   ...prev,
-                   bodies: safeBodies.filter(b => !idsToRemove.includes(b.id)),
-                   constraints: safeConstraints.filter(c => 
-                      !idsToRemove.includes(c.bodyAId) && 
-                      (!c.bodyBId || !idsToRemove.includes(c.bodyBId))
-                   )
-                 };
-              });
-              commandExecuted = true;
-            }
-
-            if (commandExecuted || response.summary) {
-               showToast(response.summary || "Command executed.", 'success');
-            } else {
-               showToast("Command not understood or no changes required.", 'error');
-            }
+            applyCommandResponse(response, fullTranscript);
 
           } catch (e: any) {
             console.error("Voice command failed", e);
@@ -341,10 +607,340 @@ const App: React.FC = () => {
     }
   };
 
+  const undo = () => {
+    const entry = history.undo({ sceneConfig: sceneConfigRef.current, physicsState: physicsStateRef.current });
+    if (!entry) return;
+    setSceneConfig(entry.sceneConfig);
+    setPhysicsState(entry.physicsState);
+    showToast(`Undid: ${entry.label}`, 'success');
+  };
+
+  const redo = () => {
+    const entry = history.redo({ sceneConfig: sceneConfigRef.current, physicsState: physicsStateRef.current });
+    if (!entry) return;
+    setSceneConfig(entry.sceneConfig);
+    setPhysicsState(entry.physicsState);
+    showToast(`Redid: ${entry.label}`, 'success');
+  };
+
+  // Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo (not while typing a command)
+  // In edit and review mode, Delete/Backspace removes the selected body; in review, arrows nudge it
+  useEffect(() => {
+    if (!showsScene && mode !== AppMode.REVIEW) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      if ((mode === AppMode.EDIT || mode === AppMode.REVIEW) && selectedBodyId && (e.key === 'Delete' || e.key === 'Backspace')) {
+        e.preventDefault();
+        deleteBody(selectedBodyId);
+        return;
+      }
+      const nudge = NUDGE_KEYS[e.key];
+      const nudged = selectedBodyId ? sceneConfigRef.current?.bodies.find(b => b.id === selectedBodyId) : undefined;
+      if (mode === AppMode.REVIEW && nudge && nudged) {
+        e.preventDefault();
+        const step = e.shiftKey ? 10 : 1;
+        updateBody(nudged.id, { x: nudged.x + nudge.x * step, y: nudged.y + nudge.y * step });
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Edit mode: freeze the world where it is and make that the scene being edited
+  const startEditing = () => {
+    const scene = sceneConfigRef.current;
+    if (!scene) return;
+    simulationRef.current?.pause();
+    const poses = simulationRef.current?.getBodyPoses() || {};
+    setSceneConfig({
+      ...scene,
+      bodies: scene.bodies.map(b => {
+        const pose = poses[b.id];
+        return pose && !b.isStatic ? { ...b, x: pose.x, y: pose.y, angle: pose.angle } : b;
+      }),
+    });
+    setSelectedBodyId(null);
+    setIsConnecting(false);
+    setMode(AppMode.EDIT);
+  };
+
+  // Back to the camera without losing the scene; the next capture merges what's new into it.
+  // The canvas stays mounted (hidden) and paused, so body states and the timeline survive.
+  const startAddFromSketch = () => {
+    resumeAfterAddRef.current = !timeline.isPaused;
+    simulationRef.current?.pause();
+    setSelectedBodyId(null);
+    setIsConnecting(false);
+    setShowLibrary(false);
+    setAddingFromSketch(true);
+    setMode(AppMode.CAMERA);
+  };
+
+  const leaveAddFromSketch = () => {
+    setAddingFromSketch(false);
+    setMode(AppMode.SIMULATION);
+    if (resumeAfterAddRef.current) simulationRef.current?.play();
+  };
+
+  const cancelAddFromSketch = () => {
+    setImportedImage(null);
+    leaveAddFromSketch();
+  };
+
+  // Review done: only accepted detections (and connections between them) go on to physics
+  const finishReview = () => {
+    const scene = sceneConfigRef.current;
+    if (scene && scene.bodies.some(b => !acceptedIds.includes(b.id))) {
+      editScene('Drop unaccepted detections', current => ({
+        bodies: current.bodies.filter(b => acceptedIds.includes(b.id)),
+        constraints: current.constraints.filter(c =>
+          acceptedIds.includes(c.bodyAId) && (c.bodyBId === undefined || acceptedIds.includes(c.bodyBId))
+        ),
+      }));
+    }
+    setSelectedBodyId(null);
+    setReviewImage(null);
+    setAcceptedIds([]);
+    setMode(AppMode.SIMULATION);
+  };
+
+  const toggleAccepted = (id: string) => {
+    setAcceptedIds(prev => (prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]));
+  };
+
+  const acceptAll = () => setAcceptedIds(sceneConfigRef.current?.bodies.map(b => b.id) || []);
+
+  const stopEditing = () => {
+    setSelectedBodyId(null);
+    setIsConnecting(false);
+    setMode(AppMode.SIMULATION);
+    simulationRef.current?.play();
+  };
+
+  // Every editor change is one undo step
+  const editScene = (label: string, edit: (scene: SceneConfig) => SceneConfig) => {
+    const scene = sceneConfigRef.current;
+    if (!scene) return;
+    history.record(label, { sceneConfig: scene, physicsState: physicsStateRef.current });
+    setSceneConfig(edit(scene));
+  };
+
+  const updateBody = (id: string, patch: Partial<BodyDef>) => {
+    const current = sceneConfigRef.current?.bodies.find(b => b.id === id);
+    if (!current) return;
+    const next = { ...current, ...patch };
+    // Switching shape: start from the body's current bounds
+    const hw = current.radius ?? (current.width !== undefined ? current.width / 2 : extentOf(current.vertices, 'x') ?? 50);
+    const hh = current.radius ?? (current.height !== undefined ? current.height / 2 : extentOf(current.vertices, 'y') ?? 10);
+    if ((next.type === 'polygon' || next.type === 'path') && !next.vertices) {
+      next.vertices = [{ x: -hw, y: -hh }, { x: hw, y: -hh }, { x: hw, y: hh }, { x: -hw, y: hh }];
+    }
+    if (next.type === 'circle' && next.radius === undefined) next.radius = Math.min(hw, hh);
+    if (next.type === 'rectangle' && next.width === undefined && next.height === undefined) {
+      next.width = hw * 2;
+      next.height = hh * 2;
+    }
+    const { body, warnings } = validateBody(next);
+    if (!body) return;
+    setValidationWarnings(warnings);
+    editScene(`Edit ${id}`, scene => ({
+      ...scene,
+      bodies: scene.bodies.map(b => b.id === id ? body : b),
+    }));
+  };
+
+  const deleteBody = (id: string) => {
+    editScene(`Delete ${id}`, scene => ({
+      ...scene,
+      bodies: scene.bodies.filter(b => b.id !== id),
+      constraints: scene.constraints.filter(c => c.bodyAId !== id && c.bodyBId !== id),
+    }));
+    setSelectedBodyId(null);
+    setIsConnecting(false);
+  };
+
+  const updateConstraint = (constraint: ConstraintDef, patch: Partial<ConstraintDef>) => {
+    editScene(`Edit ${constraint.bodyAId} connection`, scene => ({
+      ...scene,
+      constraints: scene.constraints.map(c => c === constraint ? { ...c, ...patch } : c),
+    }));
+  };
+
+  const deleteConstraint = (constraint: ConstraintDef) => {
+    editScene('Remove connection', scene => ({
+      ...scene,
+      constraints: scene.constraints.filter(c => c !== constraint),
+    }));
+  };
+
+  const selectBody = (id: string | null) => {
+    if (isConnecting && selectedBodyId && id && id !== selectedBodyId) {
+      const fromId = selectedBodyId;
+      editScene(`Connect ${fromId} to ${id}`, scene => ({
+        ...scene,
+        constraints: [...scene.constraints, { bodyAId: fromId, bodyBId: id }],
+      }));
+      setIsConnecting(false);
+      return;
+    }
+    setIsConnecting(false);
+    setSelectedBodyId(id);
+  };
+
+  // Clicking a body in the simulation adds it to (or removes it from) the chart
+  const togglePlotBody = (id: string) => {
+    setPlot(prev => prev.bodyIds.includes(id)
+      ? { ...prev, bodyIds: prev.bodyIds.filter(other => other !== id) }
+      : { quantity: prev.quantity === 'energy' ? 'height' : prev.quantity, bodyIds: [...prev.bodyIds, id] });
+  };
+
+  // Part of the scene's physics, so it is saved, shared and undoable with the scene
+  const setTimestep = (fixedTimestep: boolean, substeps: number) => {
+    history.record(
+      fixedTimestep ? `Fixed timestep (${substeps} substeps)` : 'Variable timestep',
+      { sceneConfig: sceneConfigRef.current, physicsState: physicsStateRef.current }
+    );
+    setPhysicsState(prev => ({ ...prev, fixedTimestep, substeps }));
+  };
+
+  const togglePause = () => {
+    if (timeline.isPaused) simulationRef.current?.play();
+    else simulationRef.current?.pause();
+  };
+
+  const exportScene = () => {
+    if (!sceneConfig) return;
+    const name = window.prompt('Name this scene:', 'Untitled scene');
+    if (name === null) return;
+    downloadSceneDocument(createSceneDocument(sceneConfig, physicsState, { name: name.trim() || undefined }));
+  };
+
+  // Loads a validated document straight into the simulation, skipping the camera step
+  const loadSceneDocument = (doc: SceneDocument) => {
+    setPhysicsState(doc.physicsState);
+    setSceneConfig(doc.sceneConfig);
+    setSceneKey(k => k + 1);
+    history.clear();
+    // Files and links are not captured sketches, so they do not autosave into the library
+    setLibraryMeta(null);
+    setValidationWarnings([]);
+    setCommandLog([]);
+    conversationRef.current = [];
+    recorderRef.current.clear();
+    plotRecorderRef.current.start();
+    setPlot(DEFAULT_PLOT);
+    setLiveTranscript('');
+    setSelectedBodyId(null);
+    setIsConnecting(false);
+    setAddingFromSketch(false);
+    setMode(AppMode.SIMULATION);
+  };
+
+  const importScene = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow re-importing the same file
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const doc = parseSceneDocument(await file.text());
+      loadSceneDocument(doc);
+      showToast(`Loaded "${doc.metadata.name}".`, 'success');
+    } catch (err: any) {
+      console.error("Scene import failed", err);
+      showToast(`Import Failed: ${err.message}`, 'error');
+    }
+  };
+
+  const shareScene = async () => {
+    if (!sceneConfig) return;
+    try {
+      const url = await buildShareUrl(sceneConfig, physicsState);
+      await navigator.clipboard.writeText(url);
+      showToast("Share link copied to clipboard.", 'success');
+    } catch (err: any) {
+      console.error("Share failed", err);
+      showToast(`Share Failed: ${err.message}`, 'error');
+    }
+  };
+
+  // Boot straight into a scene shared via #scene=... and drop the fragment afterwards
+  useEffect(() => {
+    const hash = window.location.hash;
+    if (!hash) return;
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    decodeSceneFragment(hash)
+      .then(doc => {
+        if (!doc) return;
+        loadSceneDocument(doc);
+        showToast("Loaded shared scene.", 'success');
+      })
+      .catch(err => {
+        console.error("Shared scene rejected", err);
+        showToast(`Shared Link Failed: ${err.message}`, 'error');
+      });
+  }, []);
+
+  const openLibraryEntry = (entry: LibraryEntry) => {
+    setPhysicsState(entry.physicsState);
+    setSceneConfig(entry.sceneConfig);
+    setSceneKey(k => k + 1);
+    history.clear();
+    setLibraryMeta({ id: entry.id, name: entry.name, createdAt: entry.createdAt, thumbnail: entry.thumbnail });
+    setCommandLog(entry.commandLog);
+    conversationRef.current = [];
+    recorderRef.current.clear();
+    plotRecorderRef.current.start();
+    setPlot(DEFAULT_PLOT);
+    setValidationWarnings([]);
+    setLiveTranscript('');
+    setShowLibrary(false);
+    setMode(AppMode.SIMULATION);
+  };
+
+  // Autosave the current sketch's final scene, physics and command log
+  useEffect(() => {
+    if (!showsScene || !libraryMeta || !sceneConfig) return;
+    const timer = setTimeout(() => {
+      saveScene({
+        ...libraryMeta,
+        updatedAt: new Date().toISOString(),
+        sceneConfig,
+        physicsState,
+        commandLog,
+      }).catch(err => console.warn("Library autosave failed", err));
+    }, LIBRARY_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [mode, libraryMeta, sceneConfig, physicsState, commandLog]);
+
   const resetSimulation = () => {
     setPhysicsState(DEFAULT_PHYSICS);
     setMode(AppMode.CAMERA);
+    setReviewImage(null);
+    setAcceptedIds([]);
+    setAddingFromSketch(false);
     setSceneConfig(null);
+    setSelectedBodyId(null);
+    setIsConnecting(false);
+    setOverlays(DEFAULT_OVERLAYS);
+    setValidationWarnings([]);
+    history.clear();
+    setLibraryMeta(null);
+    setCommandLog([]);
+    conversationRef.current = [];
+    recorderRef.current.clear();
+    plotRecorderRef.current.start();
+    setPlot(DEFAULT_PLOT);
     setLiveTranscript('');
     latestTranscriptRef.current = '';
     setToastMsg(null);
@@ -359,11 +955,57 @@ const App: React.FC = () => {
           </div>
           <h1 className="text-xl font-bold tracking-tight">Living Notebook</h1>
         </div>
-        {mode === AppMode.SIMULATION && (
-           <div className="text-xs hidden sm:block text-cyan-600">
-             Gravity: y={physicsState.gravity.y.toFixed(1)} | Time: {physicsState.timeScale}x
-           </div>
-        )}
+        <div className="flex items-center gap-3">
+          {showsScene && (
+             <div className="text-xs hidden sm:block text-cyan-600">
+               Gravity: y={physicsState.gravity.y.toFixed(1)} | Time: {physicsState.timeScale}x
+               {physicsState.fixedTimestep && ` | Fixed ×${physicsState.substeps ?? 1}`}
+             </div>
+          )}
+          {showsScene && sceneConfig && (
+            <button
+              onClick={mode === AppMode.EDIT ? stopEditing : startEditing}
+              className={`p-2 rounded-lg transition-colors ${mode === AppMode.EDIT ? 'bg-cyan-600 text-black' : 'text-cyan-400 hover:bg-cyan-900/40'}`}
+              title={mode === AppMode.EDIT ? 'Done editing' : 'Edit scene'}
+            >
+              {mode === AppMode.EDIT ? <Check size={20} /> : <Pencil size={20} />}
+            </button>
+          )}
+          {showsScene && sceneConfig && (
+            <button
+              onClick={shareScene}
+              className="p-2 rounded-lg text-cyan-400 hover:bg-cyan-900/40 transition-colors"
+              title="Copy share link"
+            >
+              <Share2 size={20} />
+            </button>
+          )}
+          {showsScene && sceneConfig && (
+            <button
+              onClick={exportScene}
+              className="p-2 rounded-lg text-cyan-400 hover:bg-cyan-900/40 transition-colors"
+              title="Export scene file"
+            >
+              <Download size={20} />
+            </button>
+          )}
+          {mode !== AppMode.ANALYZING && (
+            <button
+              onClick={() => sceneFileInputRef.current?.click()}
+              className="p-2 rounded-lg text-cyan-400 hover:bg-cyan-900/40 transition-colors"
+              title="Import scene file"
+            >
+              <Upload size={20} />
+            </button>
+          )}
+          <input
+            ref={sceneFileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={importScene}
+          />
+        </div>
       </header>
       
       {/* Toast Notification */}
@@ -411,7 +1053,11 @@ const App: React.FC = () => {
           </div>
         )}
 
-        <div className="relative w-full aspect-[4/3] rounded-xl shadow-lg shadow-cyan-900/50 overflow-hidden border-2 bg-gray-900 border-cyan-500">
+        <div
+          className="relative w-full aspect-[4/3] rounded-xl shadow-lg shadow-cyan-900/50 overflow-hidden border-2 bg-gray-900 border-cyan-500"
+          onDragOver={mode === AppMode.CAMERA ? (e) => e.preventDefault() : undefined}
+          onDrop={mode === AppMode.CAMERA ? dropSketchImage : undefined}
+        >
           
           {/* Flip Toggle Button */}
           {mode === AppMode.CAMERA && (
@@ -424,6 +1070,22 @@ const App: React.FC = () => {
             </button>
           )}
 
+          {mode === AppMode.CAMERA && showLibrary && (
+            <SceneLibrary
+              onOpen={openLibraryEntry}
+              onClose={() => setShowLibrary(false)}
+              onError={(msg) => showToast(msg, 'error')}
+            />
+          )}
+
+          {mode === AppMode.CAMERA && importedImage && (
+            <SketchCropper
+              image={importedImage}
+              onConfirm={(crop) => handleCapture({ image: importedImage, crop })}
+              onCancel={() => setImportedImage(null)}
+            />
+          )}
+
           {mode === AppMode.CAMERA && (
             <>
               <video 
@@ -436,21 +1098,49 @@ const App: React.FC = () => {
               <canvas ref={canvasRef} className="hidden" />
               <div className="absolute inset-0 border-[20px] border-black/50 pointer-events-none" />
               <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
-                <div className="w-64 h-64 border-2 border-dashed border-cyan-400/50 rounded-lg"></div>
+                <div
+                  className="absolute border-2 border-dashed border-cyan-400/50 rounded-lg"
+                  style={{ left: `${SKETCH_GUIDE.x * 100}%`, top: `${SKETCH_GUIDE.y * 100}%`, width: `${SKETCH_GUIDE.width * 100}%`, height: `${SKETCH_GUIDE.height * 100}%` }}
+                ></div>
                 <p className="absolute bottom-10 text-cyan-400/80 bg-black/50 px-3 py-1 rounded">Align sketch here</p>
               </div>
             </>
           )}
 
+          {mode === AppMode.REVIEW && sceneConfig && reviewImage && (
+            <ReviewOverlay
+              image={reviewImage.data}
+              imageSize={reviewImage.size}
+              sceneConfig={sceneConfig}
+              selectedBodyId={selectedBodyId}
+              acceptedIds={acceptedIds}
+              onSelectBody={setSelectedBodyId}
+              onBodyMoved={(id, x, y) => updateBody(id, { x, y })}
+            />
+          )}
+
           {mode === AppMode.ANALYZING && (
              <div className="w-full h-full bg-gray-900 flex items-center justify-center">
                 <p className="text-cyan-500 animate-pulse">Scanning geometry...</p>
              </div>
           )}
 
-          {mode === AppMode.SIMULATION && sceneConfig && (
-            <>
-                <SimulationCanvas sceneConfig={sceneConfig} physicsState={physicsState} />
+          {(showsScene || addingFromSketch) && sceneConfig && (
+            <div className={showsScene ? 'contents' : 'hidden'}>
+                <SimulationCanvas
+                  key={sceneKey}
+                  ref={simulationRef}
+                  sceneConfig={sceneConfig}
+                  physicsState={physicsState}
+                  onTimelineChange={setTimeline}
+                  editMode={mode === AppMode.EDIT}
+                  selectedBodyId={selectedBodyId}
+                  onSelectBody={selectBody}
+                  onBodyMoved={(id, x, y) => updateBody(id, { x, y })}
+                  overlays={overlays}
+                  recorders={[recorderRef.current, plotRecorderRef.current]}
+                  onBodyClick={togglePlotBody}
+                />
                 
                 {/* Live Subtitles Overlay */}
                 <div className={`absolute bottom-8 left-0 right-0 text-center pointer-events-none transition-opacity duration-300 ${liveTranscript ? 'opacity-100' : 'opacity-0'}`}>
@@ -458,22 +1148,183 @@ const App: React.FC = () => {
                         {liveTranscript}
                     </span>
                 </div>
-            </>
+            </div>
           )}
         </div>
 
         <div className="w-full flex flex-col gap-4">
+
+          {mode === AppMode.SIMULATION && sceneConfig && (
+            <PlaybackControls
+              timeline={timeline}
+              onTogglePause={togglePause}
+              onStep={(ticks) => simulationRef.current?.step(ticks)}
+              onSeek={(frame) => simulationRef.current?.seek(frame)}
+              fixedTimestep={!!physicsState.fixedTimestep}
+              substeps={physicsState.substeps ?? 1}
+              onTimestepChange={setTimestep}
+            />
+          )}
+
+          {mode === AppMode.SIMULATION && sceneConfig && (
+            <LiveChart
+              plot={{ ...plot, bodyIds: plot.bodyIds.filter(id => sceneConfig.bodies.some(b => b.id === id)) }}
+              samples={plotRecorderRef.current.samples()}
+              time={timeline.time}
+              bodies={sceneConfig.bodies}
+              onChange={setPlot}
+            />
+          )}
           
-          {mode === AppMode.CAMERA ? (
+          {mode === AppMode.REVIEW && sceneConfig && (
+            <ReviewPanel
+              sceneConfig={sceneConfig}
+              selectedBodyId={selectedBodyId}
+              acceptedIds={acceptedIds}
+              onSelectBody={setSelectedBodyId}
+              onToggleAccept={toggleAccepted}
+              onAcceptAll={acceptAll}
+              onChangeBody={updateBody}
+              onDeleteBody={deleteBody}
+              onChangeConstraint={updateConstraint}
+              onDeleteConstraint={deleteConstraint}
+            />
+          )}
+
+          {mode === AppMode.EDIT && sceneConfig && (() => {
+            const selected = sceneConfig.bodies.find(b => b.id === selectedBodyId);
+            return selected ? (
+              <BodyInspector
+                body={selected}
+                constraints={sceneConfig.constraints.filter(c => c.bodyAId === selected.id || c.bodyBId === selected.id)}
+                isConnecting={isConnecting}
+                onChange={(patch) => updateBody(selected.id, patch)}
+                onDelete={() => deleteBody(selected.id)}
+                onToggleConnect={() => setIsConnecting(p => !p)}
+                onDeleteConstraint={deleteConstraint}
+                onClose={() => selectBody(null)}
+              />
+            ) : (
+              <p className="text-xs text-cyan-600 text-center">Click a body to edit it. Drag to move it.</p>
+            );
+          })()}
+
+          {showsScene && sceneConfig && (
+            <OverlayControls overlays={overlays} bodies={sceneConfig.bodies} onChange={setOverlays} />
+          )}
+
+          {mode === AppMode.SIMULATION && sceneConfig && (
+            <DataCapture recorder={recorderRef.current} bodies={sceneConfig.bodies} />
+          )}
+
+          {(showsScene || mode === AppMode.REVIEW) && (
+            <WarningsPanel warnings={validationWarnings} onDismiss={() => setValidationWarnings([])} />
+          )}
+
+          {(showsScene || mode === AppMode.REVIEW) && sceneConfig && (
+            <HistoryControls
+              canUndo={history.canUndo}
+              canRedo={history.canRedo}
+              undoLabel={history.undoLabel}
+              redoLabel={history.redoLabel}
+              onUndo={undo}
+              onRedo={redo}
+            />
+          )}
+
+          {mode === AppMode.SIMULATION && sceneConfig && (
+            <CommandBar onSubmit={submitTextCommand} disabled={!!loadingMsg || isRecording} />
+          )}
+
+          {mode === AppMode.EDIT ? (
+            <button
+              onClick={stopEditing}
+              className="py-4 bg-cyan-600 hover:bg-cyan-500 text-black rounded-xl font-bold text-lg shadow-lg shadow-cyan-900/50 transition-all active:scale-95 flex items-center justify-center gap-2"
+            >
+              <Check size={24} />
+              Done Editing
+            </button>
+          ) : mode === AppMode.REVIEW ? (
+            <div className="grid grid-cols-2 gap-4">
+              <button
+                onClick={finishReview}
+                disabled={!sceneConfig || !sceneConfig.bodies.some(b => acceptedIds.includes(b.id))}
+                title="Starts with the accepted detections only"
+                className="py-4 bg-cyan-600 hover:bg-cyan-500 text-black rounded-xl font-bold text-lg shadow-lg shadow-cyan-900/50 transition-all active:scale-95 flex items-center justify-center gap-2 disabled:opacity-40"
+              >
+                <Play size={24} />
+                Start Simulation
+              </button>
+              <button
+                onClick={resetSimulation}
+                className="py-4 border-2 rounded-xl font-bold text-lg shadow-sm transition-all active:scale-95 flex items-center justify-center gap-2 bg-gray-800 border-gray-700 text-cyan-400 hover:border-cyan-500"
+              >
+                <RotateCcw size={24} />
+                Retake
+              </button>
+            </div>
+          ) : mode === AppMode.CAMERA ? (
+            <div className="flex gap-4">
+             {addingFromSketch && (
+               <button 
+                 onClick={cancelAddFromSketch}
+                 className="px-4 py-4 border-2 rounded-xl font-bold text-lg shadow-sm transition-all active:scale-95 flex items-center justify-center gap-2 bg-gray-800 border-gray-700 text-cyan-400 hover:border-cyan-500"
+                 title="Back to the simulation"
+               >
+                 <ArrowLeft size={24} />
+               </button>
+             )}
+             <button 
+               onClick={() => handleCapture()}
+               className="flex-1 py-4 bg-cyan-600 hover:bg-cyan-500 text-black rounded-xl font-bold text-lg shadow-lg shadow-cyan-900/50 transition-all active:scale-95 flex items-center justify-center gap-2"
+             >
+               {addingFromSketch ? <Plus size={24} /> : <Camera size={24} />}
+               {addingFromSketch ? 'Add to Scene' : 'Simulate Sketch'}
+             </button>
+             <button 
+               onClick={() => setOfflineRecognition(p => !p)}
+               className={`px-4 py-4 border-2 rounded-xl font-bold text-lg shadow-sm transition-all active:scale-95 flex items-center justify-center gap-2 bg-gray-800 ${offlineRecognition ? 'border-cyan-500 text-cyan-300' : 'border-gray-700 text-gray-500 hover:border-cyan-700'}`}
+               title={offlineRecognition ? 'Reading sketches offline (click to use Gemini)' : 'Read sketches offline, without Gemini'}
+             >
+               <WifiOff size={24} />
+               <span className="hidden sm:inline">Offline</span>
+             </button>
+             <button 
+               onClick={() => setCalibratePaper(p => !p)}
+               className={`px-4 py-4 border-2 rounded-xl font-bold text-lg shadow-sm transition-all active:scale-95 flex items-center justify-center gap-2 bg-gray-800 ${calibratePaper ? 'border-cyan-500 text-cyan-300' : 'border-gray-700 text-gray-500 hover:border-cyan-700'}`}
+               title={calibratePaper ? 'Finding the paper corners to correct perspective (click to use the guide box)' : 'Find the paper corners to correct perspective'}
+             >
+               <Scan size={24} />
+               <span className="hidden sm:inline">Paper</span>
+             </button>
+             {!addingFromSketch && (
+               <button 
+                 onClick={() => setShowLibrary(p => !p)}
+                 className="px-6 py-4 border-2 rounded-xl font-bold text-lg shadow-sm transition-all active:scale-95 flex items-center justify-center gap-2 bg-gray-800 border-gray-700 text-cyan-400 hover:border-cyan-500"
+                 title="Saved sketches"
+               >
+                 <Library size={24} />
+                 <span className="hidden sm:inline">Library</span>
+               </button>
+             )}
              <button 
-               onClick={handleCapture}
-               className="w-full py-4 bg-cyan-600 hover:bg-cyan-500 text-black rounded-xl font-bold text-lg shadow-lg shadow-cyan-900/50 transition-all active:scale-95 flex items-center justify-center gap-2"
+               onClick={() => imageFileInputRef.current?.click()}
+               className="px-4 py-4 border-2 rounded-xl font-bold text-lg shadow-sm transition-all active:scale-95 flex items-center justify-center gap-2 bg-gray-800 border-gray-700 text-cyan-400 hover:border-cyan-500"
+               title="Open a sketch image (or drop / paste one onto the camera)"
              >
-               <Camera size={24} />
-               Simulate Sketch
+               <ImagePlus size={24} />
+               <span className="hidden sm:inline">Image</span>
              </button>
+             <input
+               ref={imageFileInputRef}
+               type="file"
+               accept="image/*"
+               className="hidden"
+               onChange={importSketchImage}
+             />
+            </div>
           ) : (
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <button 
                 onClick={toggleRecording}
                 className={`
@@ -495,21 +1346,56 @@ const App: React.FC = () => {
                 <RotateCcw size={24} />
                 New Sketch
               </button>
+
+              <button 
+                onClick={startAddFromSketch}
+                disabled={!sceneConfig || mode !== AppMode.SIMULATION}
+                className="py-4 border-2 rounded-xl font-bold text-lg shadow-sm transition-all active:scale-95 flex items-center justify-center gap-2 bg-gray-800 border-gray-700 text-cyan-400 hover:border-cyan-500 disabled:opacity-40"
+                title="Draw more on the same page and photograph it again"
+              >
+                <Plus size={24} />
+                Add from Sketch
+              </button>
             </div>
           )}
 
           <div className="p-4 rounded-lg text-sm border transition-colors bg-gray-800/50 border-gray-700 text-gray-400">
              <h3 className="font-bold mb-1 text-cyan-500">Gemini 3.0 Pro Control:</h3>
-             {mode === AppMode.CAMERA ? (
+             {mode === AppMode.EDIT ? (
+               <ul className="list-disc pl-4 space-y-1">
+                 <li><strong>Click</strong> a body to select it, <strong>drag</strong> to move it</li>
+                 <li>Change shape, size and material in the inspector</li>
+                 <li>Use the <strong>link</strong> button, then click another body to connect them</li>
+                 <li><strong>Delete</strong> removes the selected body</li>
+               </ul>
+             ) : mode === AppMode.REVIEW ? (
+               <ul className="list-disc pl-4 space-y-1">
+                 <li>Check each detection against your sketch, then <strong>Start Simulation</strong></li>
+                 <li>Wrong shape? Pick the right one; a floor that falls? Mark it <strong>static</strong></li>
+                 <li><strong>Drag</strong> or use the <strong>arrow keys</strong> to nudge the selected body</li>
+                 <li><strong>Delete</strong> removes a false detection</li>
+               </ul>
+             ) : mode === AppMode.CAMERA ? (
                <ul className="list-disc pl-4 space-y-1">
                  <li>Draw <strong>circles</strong> (balls) and <strong>rectangles</strong>.</li>
                  <li>Tap "Simulate" to render!</li>
+                 <li>Or <strong>import</strong> a saved scene file from the top bar.</li>
+                 <li>Reopen earlier sketches from the <strong>Library</strong>.</li>
+                 <li>Scanned or photographed already? Open, drop or <strong>paste</strong> the image.</li>
+                 <li>No connection? Toggle <strong>Offline</strong> to recognize shapes on this device.</li>
+                 <li>Shooting at an angle? Toggle <strong>Paper</strong> to square up the whole sheet on a darker surface.</li>
                </ul>
              ) : (
                <ul className="list-disc pl-4 space-y-1">
                  <li>Try: "Add a pendulum", "Add a heavy box"</li>
+                 <li>No microphone? <strong>Type</strong> the same commands above</li>
                  <li>Try: "Earth gravity", "Zero gravity", "Explode"</li>
                  <li><strong>Scroll</strong> to Zoom (aspect ratio locked)</li>
+                 <li><strong>Pause</strong> and drag the timeline to rewind</li>
+                 <li>Turn on <strong>velocity</strong>, <strong>force</strong> and value overlays for all bodies or one</li>
+                 <li><strong>Click</strong> a body (or say "graph the ball's height") to chart it live</li>
+                 <li>Tap the <strong>pencil</strong> to move and tweak bodies by hand</li>
+                 <li>Drew more on the page? <strong>Add from Sketch</strong> merges just the new parts</li>
                </ul>
              )}
           </div>
@@ -0,0 +1,173 @@
+import React from 'react';
+import { Link2, Trash2, X } from 'lucide-react';
+import { BodyDef, ConstraintDef } from '../types';
+import { formatMeters } from '../services/units';
+
+interface BodyInspectorProps {
+  body: BodyDef;
+  constraints: ConstraintDef[];
+  isConnecting: boolean;
+  onChange: (patch: Partial<BodyDef>) => void;
+  onDelete: () => void;
+  onToggleConnect: () => void;
+  onDeleteConstraint: (constraint: ConstraintDef) => void;
+  onClose: () => void;
+}
+
+type NumericField = 'x' | 'y' | 'angle' | 'width' | 'height' | 'radius' | 'friction' | 'mass' | 'density' | 'restitution' | 'frictionAir';
+
+// Lengths are edited in px; metric ones show their size in meters alongside
+const NUMERIC_FIELDS: { key: NumericField; label: string; step: number; types?: BodyDef['type'][]; metric?: boolean }[] = [
+  { key: 'x', label: 'X', step: 1, metric: true },
+  { key: 'y', label: 'Y', step: 1, metric: true },
+  { key: 'angle', label: 'Angle (rad)', step: 0.05 },
+  { key: 'width', label: 'Width', step: 1, types: ['rectangle'], metric: true },
+  { key: 'height', label: 'Height', step: 1, types: ['rectangle'], metric: true },
+  { key: 'radius', label: 'Radius', step: 1, types: ['circle'], metric: true },
+  { key: 'friction', label: 'Friction', step: 0.05 },
+  { key: 'mass', label: 'Mass (kg)', step: 0.5 },
+  { key: 'density', label: 'Density', step: 0.001 },
+  { key: 'restitution', label: 'Bounciness', step: 0.05 },
+  { key: 'frictionAir', label: 'Air drag', step: 0.01 },
+];
+
+const inputClass = "w-full min-w-0 bg-gray-900 text-cyan-200 text-xs px-2 py-1 rounded outline-none border border-gray-700 focus:border-cyan-500";
+
+// Inputs are uncontrolled and commit on blur/Enter, so each keystroke doesn't rebuild the body.
+// The key includes the value so drags and undo refresh what is shown.
+const NumberInput: React.FC<{ value?: number; step: number; onCommit: (value: number | undefined) => void }> = ({ value, step, onCommit }) => {
+  const commit = (text: string) => {
+    const trimmed = text.trim();
+    const next = trimmed === '' ? undefined : Number(trimmed);
+    if (next !== undefined && !Number.isFinite(next)) return;
+    if (next !== value) onCommit(next);
+  };
+
+  return (
+    <input
+      key={String(value)}
+      type="number"
+      step={step}
+      defaultValue={value === undefined ? '' : Number(value.toFixed(4))}
+      placeholder="default"
+      onBlur={(e) => commit(e.target.value)}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit((e.target as HTMLInputElement).value); }}
+      className={inputClass}
+    />
+  );
+};
+
+const BodyInspector: React.FC<BodyInspectorProps> = ({
+  body,
+  constraints,
+  isConnecting,
+  onChange,
+  onDelete,
+  onToggleConnect,
+  onDeleteConstraint,
+  onClose,
+}) => {
+  const commitVertices = (text: string) => {
+    try {
+      const vertices = JSON.parse(text);
+      if (JSON.stringify(vertices) !== JSON.stringify(body.vertices)) onChange({ vertices });
+    } catch {
+      // Leave the field as typed; the user can fix the JSON and blur again
+    }
+  };
+
+  return (
+    <div className="w-full rounded-xl border bg-gray-800/50 border-gray-700 p-3 text-xs text-gray-300 flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <h3 className="flex-1 min-w-0 font-bold text-cyan-400 truncate" title={body.id}>{body.id}</h3>
+        <button
+          onClick={onToggleConnect}
+          className={`p-1 rounded transition-colors ${isConnecting ? 'bg-cyan-600 text-black' : 'text-cyan-400 hover:bg-cyan-900/40'}`}
+          title={isConnecting ? 'Click another body to connect (or here to cancel)' : 'Connect to another body'}
+        >
+          <Link2 size={16} />
+        </button>
+        <button onClick={onDelete} className="p-1 rounded text-gray-400 hover:text-red-400" title="Delete body (Del)">
+          <Trash2 size={16} />
+        </button>
+        <button onClick={onClose} className="p-1 rounded text-gray-400 hover:text-cyan-300" title="Deselect">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <label className="flex flex-col gap-1">
+          <span>Shape</span>
+          <select
+            value={body.type}
+            onChange={(e) => onChange({ type: e.target.value as BodyDef['type'] })}
+            className={inputClass}
+          >
+            <option value="circle">circle</option>
+            <option value="rectangle">rectangle</option>
+            <option value="polygon">polygon</option>
+            <option value="path">path</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span>Color</span>
+          <input
+            type="color"
+            value={body.color && /^#[0-9a-f]{6}$/i.test(body.color) ? body.color : '#22d3ee'}
+            onChange={(e) => onChange({ color: e.target.value })}
+            className="w-full h-[26px] bg-gray-900 rounded border border-gray-700"
+          />
+        </label>
+        <label className="flex items-center gap-2 sm:col-span-2 self-end py-1">
+          <input type="checkbox" checked={body.isStatic} onChange={(e) => onChange({ isStatic: e.target.checked })} />
+          <span>Static (pinned in place)</span>
+        </label>
+        {NUMERIC_FIELDS.filter(f => !f.types || f.types.includes(body.type)).map(field => (
+          <label key={field.key} className="flex flex-col gap-1">
+            <span>
+              {field.label}
+              {field.metric && body[field.key] !== undefined && <span className="text-gray-500"> · {formatMeters(body[field.key]!)}</span>}
+            </span>
+            <NumberInput value={body[field.key]} step={field.step} onCommit={(value) => onChange({ [field.key]: value })} />
+          </label>
+        ))}
+      </div>
+
+      {(body.type === 'polygon' || body.type === 'path') && (
+        <label className="flex flex-col gap-1">
+          <span>Vertices (relative to x, y)</span>
+          <textarea
+            key={JSON.stringify(body.vertices)}
+            defaultValue={JSON.stringify(body.vertices || [])}
+            onBlur={(e) => commitVertices(e.target.value)}
+            rows={2}
+            className={`${inputClass} font-mono resize-y`}
+          />
+        </label>
+      )}
+
+      {constraints.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <span>Connections</span>
+          {constraints.map((c, i) => {
+            const other = c.bodyAId === body.id ? c.bodyBId : c.bodyAId;
+            return (
+              <div key={i} className="flex items-center gap-2 bg-gray-900/60 rounded px-2 py-1">
+                <span className="flex-1 min-w-0 truncate">
+                  {c.type || 'link'}{' '}
+                  {other ? `to ${other}` : `pinned at (${Math.round(c.pointB?.x ?? 0)}, ${Math.round(c.pointB?.y ?? 0)})`}
+                  {c.length !== undefined && ` · length ${Math.round(c.length)}`}
+                </span>
+                <button onClick={() => onDeleteConstraint(c)} className="p-1 text-gray-400 hover:text-red-400" title="Remove connection">
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BodyInspector;
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { Send } from 'lucide-react';
+
+interface CommandBarProps {
+  onSubmit: (text: string) => void;
+  disabled?: boolean;
+}
+
+const CommandBar: React.FC<CommandBarProps> = ({ onSubmit, disabled }) => {
+  const [text, setText] = useState<string>('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const command = text.trim();
+    if (!command || disabled) return;
+    onSubmit(command);
+    setText('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full flex gap-2">
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder='Type a command, e.g. "add a red ball"'
+        disabled={disabled}
+        className="flex-1 px-4 py-3 rounded-xl border bg-gray-800/50 border-gray-700 text-cyan-200 placeholder-gray-500 outline-none focus:border-cyan-500 transition-colors disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        className="px-4 rounded-xl bg-cyan-600 text-black hover:bg-cyan-500 transition-colors disabled:opacity-50 flex items-center justify-center"
+        title="Send command"
+      >
+        <Send size={20} />
+      </button>
+    </form>
+  );
+};
+
+export default CommandBar;
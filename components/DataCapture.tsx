@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Circle, Database, FileDown, Square } from 'lucide-react';
+import { BodyDef } from '../types';
+import { DataRecorder, downloadSamples } from '../services/dataRecorder';
+
+interface DataCaptureProps {
+  recorder: DataRecorder;
+  bodies: BodyDef[];
+}
+
+// Picks bodies to record, starts/stops capture and exports what was recorded.
+// The sample count refreshes whenever App re-renders on a timeline update.
+const DataCapture: React.FC<DataCaptureProps> = ({ recorder, bodies }) => {
+  const [chosen, setChosen] = useState<string[]>([]);
+  // Recorder state lives outside React; bump to re-render after start/stop
+  const [, setVersion] = useState(0);
+  const dynamicBodies = bodies.filter(b => !b.isStatic);
+  const recording = recorder.isRecording();
+  const selection = recording ? recorder.bodyIds() : chosen.filter(id => dynamicBodies.some(b => b.id === id));
+  const samples = recorder.samples();
+
+  const toggleBody = (id: string) => {
+    setChosen(prev => (prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]));
+  };
+
+  const toggleRecording = () => {
+    if (recording) recorder.stop();
+    else recorder.start(selection);
+    setVersion(v => v + 1);
+  };
+
+  return (
+    <div className="w-full flex flex-wrap items-center gap-2 p-2 rounded-xl border bg-gray-800/50 border-gray-700 text-xs">
+      <Database size={16} className="text-cyan-500 shrink-0" />
+      {dynamicBodies.map(body => {
+        const on = selection.includes(body.id);
+        return (
+          <button
+            key={body.id}
+            onClick={() => toggleBody(body.id)}
+            disabled={recording}
+            className={`px-2 py-1 rounded-lg border transition-colors disabled:opacity-60 ${
+              on ? 'border-cyan-500 text-cyan-200 bg-cyan-900/40' : 'border-gray-700 text-gray-400 hover:border-cyan-700'
+            }`}
+          >
+            {body.id}
+          </button>
+        );
+      })}
+      <button
+        onClick={toggleRecording}
+        disabled={!recording && selection.length === 0}
+        className={`flex items-center gap-1 px-2 py-1 rounded-lg border transition-colors disabled:opacity-40 ${
+          recording ? 'border-red-500 text-red-300 bg-red-900/40' : 'border-gray-700 text-cyan-300 hover:border-cyan-500'
+        }`}
+        title={selection.length === 0 ? 'Pick bodies to record' : undefined}
+      >
+        {recording ? <Square size={12} fill="currentColor" /> : <Circle size={12} fill="currentColor" className="text-red-500" />}
+        {recording ? 'Stop' : 'Record'}
+      </button>
+      <span className="text-cyan-600 tabular-nums">{samples.length} samples</span>
+      <div className="flex gap-1 ml-auto">
+        {(['csv', 'json'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => downloadSamples(samples, format)}
+            disabled={samples.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg border border-gray-700 text-cyan-300 hover:border-cyan-500 disabled:opacity-40"
+            title={`Export ${format.toUpperCase()}`}
+          >
+            <FileDown size={12} />
+            {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DataCapture;
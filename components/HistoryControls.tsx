@@ -0,0 +1,30 @@
+import React from 'react';
+import { Redo2, Undo2 } from 'lucide-react';
+
+interface HistoryControlsProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const HistoryControls: React.FC<HistoryControlsProps> = ({ canUndo, canRedo, undoLabel, redoLabel, onUndo, onRedo }) => {
+  const buttonClass = "flex-1 min-w-0 py-2 px-3 rounded-xl border flex items-center gap-2 text-sm transition-colors bg-gray-800/50 border-gray-700 text-cyan-400 hover:border-cyan-500 disabled:opacity-40 disabled:hover:border-gray-700";
+
+  return (
+    <div className="w-full flex gap-2">
+      <button onClick={onUndo} disabled={!canUndo} className={buttonClass} title="Undo (Ctrl+Z)">
+        <Undo2 size={18} className="shrink-0" />
+        <span className="truncate">{canUndo ? `Undo: ${undoLabel}` : 'Undo'}</span>
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} className={buttonClass} title="Redo (Ctrl+Shift+Z)">
+        <Redo2 size={18} className="shrink-0" />
+        <span className="truncate">{canRedo ? `Redo: ${redoLabel}` : 'Redo'}</span>
+      </button>
+    </div>
+  );
+};
+
+export default HistoryControls;
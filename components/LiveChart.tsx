@@ -0,0 +1,148 @@
+import React, { useMemo } from 'react';
+import { ChartLine, X } from 'lucide-react';
+import { BodyDef, PlotQuantity, PlotRequest } from '../types';
+import { DataSample } from '../services/dataRecorder';
+
+interface LiveChartProps {
+  plot: PlotRequest;
+  samples: DataSample[]; // every dynamic body, oldest first
+  time: number; // simulated seconds at the frame shown; later samples are hidden while rewound
+  bodies: BodyDef[];
+  onChange: (plot: PlotRequest) => void;
+}
+
+interface Series {
+  label: string;
+  color: string;
+  points: { t: number; value: number }[];
+}
+
+const QUANTITIES: { key: PlotQuantity; label: string; unit: string }[] = [
+  { key: 'height', label: 'Height', unit: 'm' },
+  { key: 'speed', label: 'Speed', unit: 'm/s' },
+  { key: 'energy', label: 'Energy', unit: 'J' },
+];
+
+// Seconds of simulated time shown at once
+const WINDOW_SECONDS = 10;
+const WIDTH = 600;
+const HEIGHT = 160;
+const MARGIN = { left: 44, right: 8, top: 8, bottom: 18 };
+const FALLBACK_COLORS = ['#22d3ee', '#f472b6', '#a3e635', '#facc15', '#fb923c'];
+
+const buildSeries = (plot: PlotRequest, samples: DataSample[], bodies: BodyDef[]): Series[] => {
+  if (plot.quantity === 'energy') {
+    // Sum over every body sampled at the same tick
+    const totals = new Map<number, { kinetic: number; potential: number }>();
+    samples.forEach(sample => {
+      const total = totals.get(sample.t) || { kinetic: 0, potential: 0 };
+      total.kinetic += sample.kinetic;
+      total.potential += sample.potential;
+      totals.set(sample.t, total);
+    });
+    const ticks = Array.from(totals.entries());
+    return [
+      { label: 'Kinetic', color: '#22d3ee', points: ticks.map(([t, e]) => ({ t, value: e.kinetic })) },
+      { label: 'Potential', color: '#f472b6', points: ticks.map(([t, e]) => ({ t, value: e.potential })) },
+      { label: 'Total', color: '#e5e7eb', points: ticks.map(([t, e]) => ({ t, value: e.kinetic + e.potential })) },
+    ];
+  }
+  return plot.bodyIds.map((id, i) => ({
+    label: id,
+    color: bodies.find(b => b.id === id)?.color || FALLBACK_COLORS[i % FALLBACK_COLORS.length],
+    points: samples
+      .filter(sample => sample.bodyId === id)
+      .map(sample => ({ t: sample.t, value: plot.quantity === 'height' ? sample.y : sample.speed })),
+  }));
+};
+
+const formatValue = (value: number) => (Math.abs(value) >= 100 ? value.toFixed(0) : value.toFixed(2));
+
+// Plots height, speed or system energy against simulated time, up to the frame shown
+const LiveChart: React.FC<LiveChartProps> = ({ plot, samples, time, bodies, onChange }) => {
+  const quantity = QUANTITIES.find(q => q.key === plot.quantity)!;
+  const tMax = Math.max(time, WINDOW_SECONDS);
+  const tMin = tMax - WINDOW_SECONDS;
+  // The recorder hands over a new array only when samples change, so re-renders for anything
+  // else (pointer moves, toasts) reuse the series. plot is rebuilt by the parent every render.
+  const plottedIds = plot.bodyIds.join('\n');
+  const series = useMemo(
+    () => buildSeries(plot, samples.filter(sample => sample.t >= tMin && sample.t <= time), bodies),
+    [plot.quantity, plottedIds, samples, samples.length, tMin, time, bodies]
+  );
+
+  const values = series.flatMap(s => s.points.map(p => p.value));
+  let vMin = values.length > 0 ? Math.min(...values) : 0;
+  let vMax = values.length > 0 ? Math.max(...values) : 1;
+  if (vMax - vMin < 1e-6) {
+    vMin -= 0.5;
+    vMax += 0.5;
+  }
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+  const toX = (t: number) => MARGIN.left + ((t - tMin) / WINDOW_SECONDS) * plotWidth;
+  const toY = (v: number) => MARGIN.top + (1 - (v - vMin) / (vMax - vMin)) * plotHeight;
+
+  const needsBodies = plot.quantity !== 'energy' && plot.bodyIds.length === 0;
+
+  return (
+    <div className="w-full flex flex-col gap-2 p-2 rounded-xl border bg-gray-800/50 border-gray-700 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <ChartLine size={16} className="text-cyan-500 shrink-0" />
+        {QUANTITIES.map(q => (
+          <button
+            key={q.key}
+            onClick={() => onChange({ ...plot, quantity: q.key })}
+            className={`px-2 py-1 rounded-lg border transition-colors ${
+              q.key === plot.quantity ? 'border-cyan-500 text-cyan-200 bg-cyan-900/40' : 'border-gray-700 text-gray-400 hover:border-cyan-700'
+            }`}
+          >
+            {q.label}
+          </button>
+        ))}
+        {series.map(s => (
+          <span key={s.label} className="flex items-center gap-1 text-gray-300">
+            <span className="w-3 h-0.5" style={{ backgroundColor: s.color }} />
+            {s.label}
+            {plot.quantity !== 'energy' && (
+              <button
+                onClick={() => onChange({ ...plot, bodyIds: plot.bodyIds.filter(id => id !== s.label) })}
+                className="text-gray-500 hover:text-red-400"
+                title="Stop plotting"
+              >
+                <X size={12} />
+              </button>
+            )}
+          </span>
+        ))}
+      </div>
+      <div className="relative">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+          <line x1={MARGIN.left} y1={MARGIN.top} x2={MARGIN.left} y2={HEIGHT - MARGIN.bottom} stroke="#374151" />
+          <line x1={MARGIN.left} y1={HEIGHT - MARGIN.bottom} x2={WIDTH - MARGIN.right} y2={HEIGHT - MARGIN.bottom} stroke="#374151" />
+          <text x={MARGIN.left - 4} y={MARGIN.top + 8} textAnchor="end" fontSize="10" fill="#9ca3af">{formatValue(vMax)}</text>
+          <text x={MARGIN.left - 4} y={HEIGHT - MARGIN.bottom} textAnchor="end" fontSize="10" fill="#9ca3af">{formatValue(vMin)}</text>
+          <text x={MARGIN.left - 4} y={MARGIN.top + plotHeight / 2 + 4} textAnchor="end" fontSize="10" fill="#6b7280">{quantity.unit}</text>
+          <text x={MARGIN.left} y={HEIGHT - 4} fontSize="10" fill="#9ca3af">{tMin.toFixed(1)}s</text>
+          <text x={WIDTH - MARGIN.right} y={HEIGHT - 4} textAnchor="end" fontSize="10" fill="#9ca3af">{tMax.toFixed(1)}s</text>
+          {series.map(s => (
+            <polyline
+              key={s.label}
+              fill="none"
+              stroke={s.color}
+              strokeWidth={1.5}
+              points={s.points.map(p => `${toX(p.t).toFixed(1)},${toY(p.value).toFixed(1)}`).join(' ')}
+            />
+          ))}
+        </svg>
+        {needsBodies && (
+          <p className="absolute inset-0 flex items-center justify-center text-cyan-600 pointer-events-none">
+            Click a body (or say "graph the ball's height") to plot it
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LiveChart;
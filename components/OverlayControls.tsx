@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Gauge } from 'lucide-react';
+import { BodyDef, MeasurementOverlays, OverlayFlags } from '../types';
+
+interface OverlayControlsProps {
+  overlays: MeasurementOverlays;
+  bodies: BodyDef[];
+  onChange: (overlays: MeasurementOverlays) => void;
+}
+
+const OVERLAY_OPTIONS: { key: keyof OverlayFlags; label: string; color: string }[] = [
+  { key: 'velocity', label: 'Velocity', color: 'bg-cyan-500' },
+  { key: 'acceleration', label: 'Accel', color: 'bg-yellow-400' },
+  { key: 'gravity', label: 'Weight', color: 'bg-pink-400' },
+  { key: 'contacts', label: 'Contacts', color: 'bg-red-400' },
+  { key: 'readouts', label: 'Values', color: 'bg-gray-200' },
+];
+
+const ALL_BODIES = '';
+
+// Toggles measurement overlays for every body, or adds them to one body
+const OverlayControls: React.FC<OverlayControlsProps> = ({ overlays, bodies, onChange }) => {
+  const [target, setTarget] = useState<string>(ALL_BODIES);
+  // The picked body may have been removed since
+  const targetId = bodies.some(b => b.id === target) ? target : ALL_BODIES;
+  const flags: Partial<OverlayFlags> = targetId === ALL_BODIES ? overlays.global : (overlays.bodies[targetId] || {});
+
+  const toggle = (key: keyof OverlayFlags) => {
+    if (targetId === ALL_BODIES) {
+      onChange({ ...overlays, global: { ...overlays.global, [key]: !overlays.global[key] } });
+    } else {
+      onChange({ ...overlays, bodies: { ...overlays.bodies, [targetId]: { ...flags, [key]: !flags[key] } } });
+    }
+  };
+
+  return (
+    <div className="w-full flex flex-wrap items-center gap-2 p-2 rounded-xl border bg-gray-800/50 border-gray-700 text-xs">
+      <Gauge size={16} className="text-cyan-500 shrink-0" />
+      <select
+        value={targetId}
+        onChange={(e) => setTarget(e.target.value)}
+        className="bg-gray-900 text-cyan-400 px-1 py-1 rounded outline-none border border-gray-700 max-w-[10rem]"
+        title="Show overlays for"
+      >
+        <option value={ALL_BODIES}>All bodies</option>
+        {bodies.filter(b => !b.isStatic).map(b => <option key={b.id} value={b.id}>{b.id}</option>)}
+      </select>
+      {OVERLAY_OPTIONS.map(option => {
+        const on = !!flags[option.key];
+        const inherited = targetId !== ALL_BODIES && overlays.global[option.key];
+        return (
+          <button
+            key={option.key}
+            onClick={() => toggle(option.key)}
+            disabled={inherited}
+            className={`flex items-center gap-1 px-2 py-1 rounded-lg border transition-colors disabled:opacity-50 ${
+              on || inherited ? 'border-cyan-500 text-cyan-200 bg-cyan-900/40' : 'border-gray-700 text-gray-400 hover:border-cyan-700'
+            }`}
+            title={inherited ? 'On for all bodies' : undefined}
+          >
+            <span className={`w-2 h-2 rounded-full ${option.color}`} />
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default OverlayControls;
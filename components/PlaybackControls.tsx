@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Lock, Pause, Play, StepForward } from 'lucide-react';
+import { TimelineStatus } from './SimulationCanvas';
+
+interface PlaybackControlsProps {
+  timeline: TimelineStatus;
+  onTogglePause: () => void;
+  onStep: (ticks: number) => void;
+  onSeek: (frame: number) => void;
+  // Reproducible fixed-timestep mode and its engine updates per tick
+  fixedTimestep: boolean;
+  substeps: number;
+  onTimestepChange: (fixedTimestep: boolean, substeps: number) => void;
+}
+
+const STEP_OPTIONS = [1, 10, 60];
+const SUBSTEP_OPTIONS = [1, 2, 4, 8];
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  timeline,
+  onTogglePause,
+  onStep,
+  onSeek,
+  fixedTimestep,
+  substeps,
+  onTimestepChange,
+}) => {
+  const [stepSize, setStepSize] = useState<number>(1);
+  const lastFrame = Math.max(timeline.frameCount - 1, 0);
+  const seconds = timeline.time.toFixed(2);
+
+  return (
+    <div className="w-full flex items-center gap-3 p-3 rounded-xl border bg-gray-800/50 border-gray-700">
+      <button
+        onClick={onTogglePause}
+        className="p-2 rounded-lg bg-cyan-600 text-black hover:bg-cyan-500 transition-colors"
+        title={timeline.isPaused ? 'Play' : 'Pause'}
+      >
+        {timeline.isPaused ? <Play size={20} /> : <Pause size={20} />}
+      </button>
+
+      <div className="flex items-center rounded-lg border border-gray-700 overflow-hidden">
+        <button
+          onClick={() => onStep(stepSize)}
+          className="p-2 text-cyan-400 hover:bg-gray-700 transition-colors"
+          title={`Step ${stepSize} tick${stepSize === 1 ? '' : 's'}`}
+        >
+          <StepForward size={20} />
+        </button>
+        <select
+          value={stepSize}
+          onChange={(e) => setStepSize(Number(e.target.value))}
+          className="bg-gray-900 text-cyan-400 text-xs h-full px-1 py-2 outline-none"
+          title="Ticks per step"
+        >
+          {STEP_OPTIONS.map(n => <option key={n} value={n}>×{n}</option>)}
+        </select>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={lastFrame}
+        value={Math.min(timeline.frame, lastFrame)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1 accent-cyan-500"
+        title="Rewind timeline"
+      />
+
+      <span className="text-xs text-cyan-600 tabular-nums w-16 text-right">{seconds}s</span>
+
+      <div className="flex items-center rounded-lg border border-gray-700 overflow-hidden">
+        <button
+          onClick={() => onTimestepChange(!fixedTimestep, substeps)}
+          className={`p-2 transition-colors ${fixedTimestep ? 'bg-cyan-900/60 text-cyan-200' : 'text-gray-500 hover:bg-gray-700'}`}
+          title={fixedTimestep ? 'Fixed timestep on: runs are identical on every device' : 'Use a fixed timestep for reproducible runs'}
+        >
+          <Lock size={20} />
+        </button>
+        {fixedTimestep && (
+          <select
+            value={substeps}
+            onChange={(e) => onTimestepChange(true, Number(e.target.value))}
+            className="bg-gray-900 text-cyan-400 text-xs h-full px-1 py-2 outline-none"
+            title="Substeps per tick"
+          >
+            {SUBSTEP_OPTIONS.map(n => <option key={n} value={n}>{n} sub</option>)}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { BodyDef, ConstraintDef, Point, SceneConfig } from '../types';
+import { WORLD_HEIGHT_PX, WORLD_WIDTH_PX } from '../services/units';
+import { ImageSize, letterbox } from '../services/frameTransform';
+
+interface ReviewOverlayProps {
+  image: string; // base64 JPEG the scene was read from
+  imageSize: ImageSize;
+  sceneConfig: SceneConfig;
+  selectedBodyId: string | null;
+  acceptedIds: string[];
+  onSelectBody: (id: string | null) => void;
+  onBodyMoved: (id: string, x: number, y: number) => void;
+}
+
+interface Drag {
+  id: string;
+  start: Point; // pointer, scene px
+  moved: boolean;
+}
+
+// Pointer travel (scene px) before a press on a body counts as a drag rather than a click
+const DRAG_TOLERANCE = 3;
+
+const rotate = (p: Point, angle: number): Point => ({
+  x: p.x * Math.cos(angle) - p.y * Math.sin(angle),
+  y: p.x * Math.sin(angle) + p.y * Math.cos(angle),
+});
+
+// Where a constraint attaches, in scene px
+const anchorOf = (body: BodyDef | undefined, offset: Point | undefined): Point | null => {
+  if (!body) return offset || null;
+  const r = rotate(offset || { x: 0, y: 0 }, body.angle || 0);
+  return { x: body.x + r.x, y: body.y + r.y };
+};
+
+type ShapeStyle = Pick<React.SVGAttributes<SVGElement>, 'fill' | 'fillOpacity' | 'stroke' | 'strokeWidth' | 'strokeDasharray'>;
+
+const BodyShape: React.FC<{ body: BodyDef } & ShapeStyle> = ({ body, ...style }) => {
+  const transform = `translate(${body.x} ${body.y}) rotate(${((body.angle || 0) * 180) / Math.PI})`;
+  if (body.type === 'circle') {
+    return <circle cx={body.x} cy={body.y} r={body.radius ?? 20} {...style} />;
+  }
+  if (body.type === 'rectangle' || !body.vertices || body.vertices.length < 3) {
+    const w = body.width ?? 40;
+    const h = body.height ?? 40;
+    return <rect x={-w / 2} y={-h / 2} width={w} height={h} transform={transform} {...style} />;
+  }
+  return (
+    <polygon
+      points={body.vertices.map(v => `${v.x},${v.y}`).join(' ')}
+      transform={transform}
+      {...style}
+    />
+  );
+};
+
+// Draws what was detected on top of the photo it came from, placed in the 800x600 world the
+// same way the detections were. Bodies can be selected and dragged to nudge them into place.
+const ReviewOverlay: React.FC<ReviewOverlayProps> = ({ image, imageSize, sceneConfig, selectedBodyId, acceptedIds, onSelectBody, onBodyMoved }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  // Live offset of the body being dragged; committed once on release so a drag is one undo step
+  const [offset, setOffset] = useState<{ id: string; dx: number; dy: number } | null>(null);
+
+  const toScene = (e: React.PointerEvent): Point => {
+    const svg = svgRef.current!;
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const local = point.matrixTransform(svg.getScreenCTM()!.inverse());
+    return { x: local.x, y: local.y };
+  };
+
+  const startDrag = (id: string) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    svgRef.current!.setPointerCapture(e.pointerId);
+    dragRef.current = { id, start: toScene(e), moved: false };
+    onSelectBody(id);
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toScene(e);
+    const dx = p.x - drag.start.x;
+    const dy = p.y - drag.start.y;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_TOLERANCE) return;
+    drag.moved = true;
+    setOffset({ id: drag.id, dx, dy });
+  };
+
+  const endDrag = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.moved && offset) {
+      const body = sceneConfig.bodies.find(b => b.id === drag.id);
+      if (body) onBodyMoved(drag.id, body.x + offset.dx, body.y + offset.dy);
+    }
+    setOffset(null);
+  };
+
+  const placement = letterbox(imageSize);
+  const bodies = sceneConfig.bodies.map(b => (offset && offset.id === b.id ? { ...b, x: b.x + offset.dx, y: b.y + offset.dy } : b));
+  const byId = new Map<string, BodyDef>(bodies.map(b => [b.id, b]));
+
+  const constraintLine = (c: ConstraintDef, i: number) => {
+    const a = anchorOf(byId.get(c.bodyAId), c.pointA);
+    const b = anchorOf(c.bodyBId ? byId.get(c.bodyBId) : undefined, c.pointB);
+    if (!a || !b) return null;
+    return <line key={i} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="#facc15" strokeWidth={2} strokeDasharray="6 4" />;
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WORLD_WIDTH_PX} ${WORLD_HEIGHT_PX}`}
+      className="w-full h-full select-none touch-none"
+      onPointerDown={() => onSelectBody(null)}
+      onPointerMove={moveDrag}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+    >
+      <image
+        href={`data:image/jpeg;base64,${image}`}
+        x={placement.offsetX}
+        y={placement.offsetY}
+        width={imageSize.width * placement.scale}
+        height={imageSize.height * placement.scale}
+        opacity={0.6}
+      />
+      {sceneConfig.constraints.map(constraintLine)}
+      {bodies.map(body => {
+        const selected = body.id === selectedBodyId;
+        const accepted = acceptedIds.includes(body.id);
+        const color = accepted ? '#4ade80' : body.isStatic ? '#9ca3af' : '#22d3ee';
+        return (
+          <g key={body.id} style={{ cursor: 'move' }} onPointerDown={startDrag(body.id)}>
+            <BodyShape
+              body={body}
+              fill={color}
+              fillOpacity={selected ? 0.35 : 0.15}
+              stroke={selected ? '#ffffff' : color}
+              strokeWidth={selected ? 3 : 2}
+              strokeDasharray={body.isStatic ? '8 4' : undefined}
+            />
+            <text x={body.x} y={body.y} textAnchor="middle" dominantBaseline="middle" fontSize={14} fill="#ffffff" stroke="#000000" strokeWidth={3} paintOrder="stroke" pointerEvents="none">
+              {body.id}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default ReviewOverlay;
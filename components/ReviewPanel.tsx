@@ -0,0 +1,125 @@
+import React from 'react';
+import { Check, CheckCheck, Link2, Pin, PinOff, Trash2 } from 'lucide-react';
+import { BodyDef, ConstraintDef, JointType, SceneConfig } from '../types';
+
+interface ReviewPanelProps {
+  sceneConfig: SceneConfig;
+  selectedBodyId: string | null;
+  acceptedIds: string[];
+  onSelectBody: (id: string | null) => void;
+  onToggleAccept: (id: string) => void;
+  onAcceptAll: () => void;
+  onChangeBody: (id: string, patch: Partial<BodyDef>) => void;
+  onDeleteBody: (id: string) => void;
+  onChangeConstraint: (constraint: ConstraintDef, patch: Partial<ConstraintDef>) => void;
+  onDeleteConstraint: (constraint: ConstraintDef) => void;
+}
+
+const BODY_TYPES: BodyDef['type'][] = ['circle', 'rectangle', 'polygon', 'path'];
+// '' is a plain link
+const JOINT_TYPES: (JointType | '')[] = ['', 'spring', 'rope', 'revolute', 'prismatic', 'motor'];
+
+const selectClass = "bg-gray-900 text-cyan-200 text-xs px-1 py-0.5 rounded outline-none border border-gray-700 focus:border-cyan-500";
+
+// One row per detected body and connection: accept it, fix its shape or static flag, or drop it.
+// Only accepted bodies are kept when the simulation starts.
+const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  sceneConfig,
+  selectedBodyId,
+  acceptedIds,
+  onSelectBody,
+  onToggleAccept,
+  onAcceptAll,
+  onChangeBody,
+  onDeleteBody,
+  onChangeConstraint,
+  onDeleteConstraint,
+}) => {
+  const { bodies, constraints } = sceneConfig;
+  const accepted = bodies.filter(b => acceptedIds.includes(b.id)).length;
+
+  return (
+    <div className="w-full rounded-xl border bg-gray-800/50 border-gray-700 p-3 text-xs text-gray-300 flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-cyan-400">Check the detections</h3>
+        <div className="flex items-center gap-2">
+          <span className="text-cyan-600 tabular-nums">{accepted} of {bodies.length} accepted</span>
+          <button
+            onClick={onAcceptAll}
+            disabled={accepted === bodies.length}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-green-700 text-green-400 hover:border-green-500 disabled:opacity-40"
+            title="Accept every detection"
+          >
+            <CheckCheck size={12} />
+            all
+          </button>
+        </div>
+      </div>
+      {bodies.length === 0 && <p className="text-gray-500">Nothing left. Retake the photo to try again.</p>}
+      {bodies.map(body => {
+        const isAccepted = acceptedIds.includes(body.id);
+        return (
+          <div
+            key={body.id}
+            onClick={() => onSelectBody(body.id)}
+            className={`flex items-center gap-2 px-2 py-1 rounded-lg border cursor-pointer ${
+              body.id === selectedBodyId ? 'border-cyan-500 bg-cyan-900/30' : 'border-gray-700'
+            }`}
+          >
+            <span className={`flex-1 min-w-0 truncate ${isAccepted ? 'text-green-400' : 'text-cyan-200'}`} title={body.id}>{body.id}</span>
+            <select
+              value={body.type}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => onChangeBody(body.id, { type: e.target.value as BodyDef['type'] })}
+              className={selectClass}
+              title="Shape"
+            >
+              {BODY_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+            </select>
+            <button
+              onClick={(e) => { e.stopPropagation(); onChangeBody(body.id, { isStatic: !body.isStatic }); }}
+              className={`flex items-center gap-1 px-1.5 py-0.5 rounded border ${body.isStatic ? 'border-gray-500 text-gray-300' : 'border-cyan-700 text-cyan-300'}`}
+              title={body.isStatic ? 'Static: click to let it move' : 'Moves: click to pin it in place'}
+            >
+              {body.isStatic ? <Pin size={12} /> : <PinOff size={12} />}
+              {body.isStatic ? 'static' : 'moves'}
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onToggleAccept(body.id); }}
+              className={`p-1 rounded ${isAccepted ? 'bg-green-600 text-black' : 'text-gray-400 hover:text-green-400'}`}
+              title={isAccepted ? 'Accepted' : 'Accept'}
+            >
+              <Check size={14} />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDeleteBody(body.id); }}
+              className="p-1 rounded text-gray-400 hover:text-red-400"
+              title="Delete (Del)"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        );
+      })}
+      {constraints.map((c, i) => (
+        <div key={i} className="flex items-center gap-2 px-2 py-1 rounded-lg border border-gray-700">
+          <Link2 size={14} className="text-yellow-400 shrink-0" />
+          <span className="flex-1 min-w-0 truncate">{c.bodyAId} – {c.bodyBId || 'world'}</span>
+          <select
+            value={c.type || ''}
+            onChange={(e) => onChangeConstraint(c, { type: (e.target.value || undefined) as JointType | undefined })}
+            className={selectClass}
+            title="Connection type"
+          >
+            {JOINT_TYPES.map(type => <option key={type} value={type}>{type || 'link'}</option>)}
+          </select>
+          <button onClick={() => onDeleteConstraint(c)} className="p-1 rounded text-gray-400 hover:text-red-400" title="Remove connection">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReviewPanel;
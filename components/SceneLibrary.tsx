@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Pencil, Play, Trash2, X } from 'lucide-react';
+import { LibraryEntry } from '../types';
+import { deleteScene, listScenes, renameScene } from '../services/sceneLibrary';
+
+interface SceneLibraryProps {
+  onOpen: (entry: LibraryEntry) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+const SceneLibrary: React.FC<SceneLibraryProps> = ({ onOpen, onClose, onError }) => {
+  const [entries, setEntries] = useState<LibraryEntry[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState<string>('');
+
+  const refresh = async () => {
+    try {
+      setEntries(await listScenes());
+    } catch (e: any) {
+      console.error("Library load failed", e);
+      onError(`Library Unavailable: ${e.message}`);
+      setEntries([]);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const startRename = (entry: LibraryEntry) => {
+    setEditingId(entry.id);
+    setDraftName(entry.name);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const name = draftName.trim();
+    setEditingId(null);
+    if (!name) return;
+    try {
+      await renameScene(editingId, name);
+      await refresh();
+    } catch (e: any) {
+      onError(e.message);
+    }
+  };
+
+  const remove = async (entry: LibraryEntry) => {
+    if (!window.confirm(`Delete "${entry.name}" from the library?`)) return;
+    try {
+      await deleteScene(entry.id);
+      await refresh();
+    } catch (e: any) {
+      onError(e.message);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-900/95 backdrop-blur flex flex-col">
+      <div className="flex items-center justify-between p-4 border-b border-cyan-800">
+        <h2 className="font-bold text-cyan-400">Scene Library</h2>
+        <button onClick={onClose} className="p-1 rounded-lg text-cyan-400 hover:bg-cyan-900/40 transition-colors" title="Close">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        {entries === null && <p className="text-cyan-600 animate-pulse">Loading...</p>}
+        {entries?.length === 0 && (
+          <p className="text-gray-500 text-sm">No saved sketches yet. Every sketch you simulate is saved here automatically.</p>
+        )}
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {entries?.map(entry => (
+            <div key={entry.id} className="rounded-xl border border-gray-700 bg-gray-800/50 overflow-hidden flex flex-col">
+              <button onClick={() => onOpen(entry)} className="relative aspect-[4/3] bg-black group" title="Open in simulation">
+                <img src={`data:image/jpeg;base64,${entry.thumbnail}`} alt={entry.name} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
+                <Play className="absolute inset-0 m-auto text-cyan-300 opacity-0 group-hover:opacity-100 transition-opacity" size={32} />
+              </button>
+              <div className="p-2 flex items-center gap-1">
+                {editingId === entry.id ? (
+                  <>
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 bg-gray-900 text-cyan-200 text-xs px-2 py-1 rounded outline-none border border-cyan-700"
+                    />
+                    <button onClick={commitRename} className="p-1 text-cyan-400 hover:text-cyan-200" title="Save name">
+                      <Check size={14} />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs text-cyan-200 truncate">{entry.name}</p>
+                      <p className="text-[10px] text-gray-500">
+                        {new Date(entry.updatedAt).toLocaleDateString()} · {entry.sceneConfig.bodies.length} bodies · {entry.commandLog.length} commands
+                      </p>
+                    </div>
+                    <button onClick={() => startRename(entry)} className="p-1 text-gray-400 hover:text-cyan-300" title="Rename">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => remove(entry)} className="p-1 text-gray-400 hover:text-red-400" title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SceneLibrary;
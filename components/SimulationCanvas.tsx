@@ -1,19 +1,182 @@
-import React, { useEffect, useRef } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
 import Matter from 'matter-js';
-import { SceneConfig, PhysicsState } from '../types';
+import { SceneConfig, PhysicsState, MeasurementOverlays } from '../types';
+import { drawJoints } from '../services/joints';
+import { DEFAULT_OVERLAYS, createMeasurementTracker, drawMeasurements, hasAnyOverlay } from '../services/measurements';
+import { DataRecorder } from '../services/dataRecorder';
+import { PIXELS_PER_METER, WORLD_HEIGHT_PX, WORLD_WIDTH_PX } from '../services/units';
+import {
+  BodyState, FixedStepClock, PhysicsWorld, TICK_EVENT, TICK_MS,
+  advanceFixedStep, applyPhysics, createWorld, destroyWorld, readBodyStates, restoreBodyStates, stepWorld, syncWorld,
+} from '../services/physicsWorld';
+
+// ~30 seconds of rewindable history at 60 ticks/s
+const MAX_HISTORY_FRAMES = 1800;
+// Pointer travel (world px) below which a press and release counts as a click, not a drag
+const CLICK_TOLERANCE = 5;
+// Only notify the parent every few ticks while running to avoid re-rendering App at 60 fps
+const TIMELINE_REPORT_INTERVAL = 6;
+
+// Dynamic body states for one engine tick, keyed by BodyDef id (the Matter label),
+// so bodies rebuilt by a scene edit still rewind
+interface FrameSnapshot {
+  time: number; // simulated seconds (timeScale applied)
+  bodies: Map<string, BodyState>;
+}
+
+export interface TimelineStatus {
+  isPaused: boolean;
+  frame: number;
+  frameCount: number;
+  time: number; // simulated seconds at the current frame
+}
+
+export interface BodyPose {
+  x: number;
+  y: number;
+  angle: number;
+}
+
+// Imperative engine controls exposed to App through a ref
+export interface SimulationHandle {
+  play: () => void;
+  pause: () => void;
+  step: (ticks?: number) => void;
+  seek: (frame: number) => void;
+  // Live pose of every scene body, keyed by BodyDef id
+  getBodyPoses: () => Record<string, BodyPose>;
+}
 
 interface SimulationCanvasProps {
   sceneConfig: SceneConfig;
   physicsState: PhysicsState;
+  onTimelineChange?: (status: TimelineStatus) => void;
+  // Edit mode: clicks select bodies and drags move them instead of applying forces
+  editMode?: boolean;
+  selectedBodyId?: string | null;
+  onSelectBody?: (id: string | null) => void;
+  onBodyMoved?: (id: string, x: number, y: number) => void;
+  overlays?: MeasurementOverlays;
+  // Each is sampled after every tick while it is recording
+  recorders?: DataRecorder[];
+  // Simulation mode: a click (press and release without dragging) on a dynamic body
+  onBodyClick?: (id: string) => void;
 }
 
-const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ sceneConfig, physicsState }) => {
+const SimulationCanvas = forwardRef<SimulationHandle, SimulationCanvasProps>(({
+  sceneConfig,
+  physicsState,
+  onTimelineChange,
+  editMode = false,
+  selectedBodyId = null,
+  onSelectBody,
+  onBodyMoved,
+  overlays = DEFAULT_OVERLAYS,
+  recorders = [],
+  onBodyClick,
+}, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const engineRef = useRef<Matter.Engine | null>(null);
+  // Engine and live world contents, diffed against each new sceneConfig
+  const worldRef = useRef<PhysicsWorld | null>(null);
   const renderRef = useRef<Matter.Render | null>(null);
   const runnerRef = useRef<Matter.Runner | null>(null);
+  const physicsStateRef = useRef(physicsState);
+  physicsStateRef.current = physicsState;
+
+  // Timeline: recorded frames and the frame currently shown
+  const historyRef = useRef<FrameSnapshot[]>([]);
+  const cursorRef = useRef<number>(0);
+  const pausedRef = useRef<boolean>(false);
+  const onTimelineChangeRef = useRef(onTimelineChange);
+  onTimelineChangeRef.current = onTimelineChange;
+
+  // Edit mode state read from engine/mouse event handlers
+  const mouseConstraintRef = useRef<Matter.MouseConstraint | null>(null);
+  const editModeRef = useRef(editMode);
+  editModeRef.current = editMode;
+  const selectedBodyIdRef = useRef(selectedBodyId);
+  selectedBodyIdRef.current = selectedBodyId;
+  const onSelectBodyRef = useRef(onSelectBody);
+  onSelectBodyRef.current = onSelectBody;
+  const onBodyMovedRef = useRef(onBodyMoved);
+  onBodyMovedRef.current = onBodyMoved;
+
+  // Velocity/acceleration/force overlays
+  const overlaysRef = useRef(overlays);
+  overlaysRef.current = overlays;
+  const measurementsRef = useRef(createMeasurementTracker());
+  const recordersRef = useRef(recorders);
+  recordersRef.current = recorders;
+  const onBodyClickRef = useRef(onBodyClick);
+  onBodyClickRef.current = onBodyClick;
+
+  // Simulated seconds at the frame currently shown
+  const currentTime = () => historyRef.current[cursorRef.current]?.time ?? 0;
+
+  const reportTimeline = () => {
+    onTimelineChangeRef.current?.({
+      isPaused: pausedRef.current,
+      frame: cursorRef.current,
+      frameCount: historyRef.current.length,
+      time: currentTime(),
+    });
+  };
+
+  // Resuming or stepping from a rewound frame discards the recorded future
+  const truncateHistory = () => {
+    historyRef.current.length = Math.min(historyRef.current.length, cursorRef.current + 1);
+    recordersRef.current.forEach(recorder => recorder.discardAfter(currentTime()));
+  };
+
+  // Matter's Runner drives the default mode; fixed-timestep mode is driven by our own frame loop
+  const syncRunner = () => {
+    if (runnerRef.current) runnerRef.current.enabled = !pausedRef.current && !physicsStateRef.current.fixedTimestep;
+  };
+
+  const setPaused = (paused: boolean) => {
+    pausedRef.current = paused;
+    syncRunner();
+  };
 
-  // Initialize Engine
+  useImperativeHandle(ref, () => ({
+    play: () => {
+      truncateHistory();
+      setPaused(false);
+      reportTimeline();
+    },
+    pause: () => {
+      setPaused(true);
+      reportTimeline();
+    },
+    step: (ticks = 1) => {
+      const world = worldRef.current;
+      if (!world) return;
+      setPaused(true);
+      truncateHistory();
+      stepWorld(world, ticks);
+      reportTimeline();
+    },
+    seek: (frame: number) => {
+      const world = worldRef.current;
+      const history = historyRef.current;
+      if (!world || history.length === 0) return;
+      setPaused(true);
+      const index = Math.min(Math.max(Math.round(frame), 0), history.length - 1);
+      restoreBodyStates(world, history[index].bodies);
+      measurementsRef.current.reset();
+      cursorRef.current = index;
+      reportTimeline();
+    },
+    getBodyPoses: () => {
+      const poses: Record<string, BodyPose> = {};
+      worldRef.current?.bodies.forEach((body, id) => {
+        poses[id] = { x: body.position.x, y: body.position.y, angle: body.angle };
+      });
+      return poses;
+    },
+  }), []);
+
+  // Initialize Engine (once; scene changes are applied incrementally below)
   useEffect(() => {
     if (!containerRef.current) return;
     
@@ -21,19 +184,16 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ sceneConfig, physic
     if (containerRef.current.clientWidth === 0 || containerRef.current.clientHeight === 0) return;
 
     // Setup Matter.js
-    const Engine = Matter.Engine;
     const Render = Matter.Render;
     const Runner = Matter.Runner;
-    const World = Matter.World;
-    const Bodies = Matter.Bodies;
     const Composite = Matter.Composite;
-    const Constraint = Matter.Constraint;
     const Mouse = Matter.Mouse;
     const MouseConstraint = Matter.MouseConstraint;
     const Events = Matter.Events;
 
-    const engine = Engine.create();
-    engineRef.current = engine;
+    const world = createWorld();
+    const { engine } = world;
+    worldRef.current = world;
 
     const width = containerRef.current.clientWidth;
     const height = containerRef.current.clientHeight;
@@ -59,89 +219,6 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ sceneConfig, physic
       max: { x: 800 + PADDING, y: 600 + PADDING }
     });
 
-    // Styles for "Neon 3D" look
-    const defaultFill = '#22d3ee'; // Cyan
-    const dynamicFill = '#f472b6'; // Pink
-    
-    // Add Bodies from Config
-    const bodiesMap = new Map<string, Matter.Body>();
-
-    try {
-      sceneConfig.bodies.forEach((def) => {
-        let body: Matter.Body;
-        
-        // Determine Border Color based on Friction
-        // Ice (< 0.05) -> Blue/Cyan border
-        // Sticky (> 0.5) -> Amber/Orange border
-        // Normal -> White border
-        const friction = def.friction !== undefined ? def.friction : 0.1;
-        let strokeColor = '#fff'; 
-        if (friction < 0.05) strokeColor = '#67e8f9'; // Cyan-300
-        else if (friction > 0.5) strokeColor = '#fbbf24'; // Amber-400
-
-        const commonOptions = {
-          isStatic: def.isStatic,
-          angle: def.angle || 0,
-          friction: friction,
-          restitution: 0.6,
-          render: {
-            fillStyle: def.color || (def.isStatic ? defaultFill : dynamicFill),
-            strokeStyle: strokeColor,
-            lineWidth: friction > 0.5 || friction < 0.05 ? 4 : 2, // Thicker border for modified friction
-            opacity: 0.9,
-          },
-          label: def.id,
-        };
-        
-        const x = def.x; 
-        const y = def.y;
-
-        // Safety: Ensure finite coordinates
-        if (!Number.isFinite(x) || !Number.isFinite(y)) return;
-
-        if (def.type === 'circle') {
-          body = Bodies.circle(x, y, def.radius || 20, commonOptions);
-        } else {
-          body = Bodies.rectangle(x, y, def.width || 100, def.height || 20, commonOptions);
-        }
-        
-        bodiesMap.set(def.id, body);
-        Composite.add(engine.world, body);
-      });
-    } catch (err) {
-      console.error("Error creating bodies:", err);
-    }
-
-    // Add Constraints
-    if (sceneConfig.constraints) {
-      sceneConfig.constraints.forEach((cDef) => {
-        try {
-          const bodyA = bodiesMap.get(cDef.bodyAId);
-          const bodyB = cDef.bodyBId ? bodiesMap.get(cDef.bodyBId) : undefined;
-          
-          if (bodyA) {
-            const options: any = {
-              bodyA: bodyA,
-              pointB: cDef.pointB || (bodyB ? undefined : { x: 0, y: 0 }),
-              stiffness: cDef.stiffness || 0.1,
-              length: cDef.length, 
-              render: {
-                strokeStyle: '#a78bfa',
-                lineWidth: 3,
-                anchors: true,
-              }
-            };
-            if (bodyB) options.bodyB = bodyB;
-
-            const constraint = Constraint.create(options);
-            Composite.add(engine.world, constraint);
-          }
-        } catch (err) {
-          console.warn("Failed to create constraint:", cDef, err);
-        }
-      });
-    }
-
     // Add Mouse Control
     const mouse = Mouse.create(render.canvas);
     const mouseConstraint = MouseConstraint.create(engine, {
@@ -153,17 +230,70 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ sceneConfig, physic
     });
     Composite.add(engine.world, mouseConstraint);
     render.mouse = mouse;
+    mouseConstraintRef.current = mouseConstraint;
 
-    // Boundaries
-    const WALL_THICKNESS = 2000; 
-    const WORLD_WIDTH = 800;
-    const WORLD_HEIGHT = 600;
-    Composite.add(engine.world, [
-      Bodies.rectangle(WORLD_WIDTH/2, -WALL_THICKNESS/2, WORLD_WIDTH + WALL_THICKNESS*2, WALL_THICKNESS, { isStatic: true, render: { visible: false } }), 
-      Bodies.rectangle(WORLD_WIDTH/2, WORLD_HEIGHT + WALL_THICKNESS/2, WORLD_WIDTH + WALL_THICKNESS*2, WALL_THICKNESS, { isStatic: true, render: { visible: false } }), 
-      Bodies.rectangle(-WALL_THICKNESS/2, WORLD_HEIGHT/2, WALL_THICKNESS, WORLD_HEIGHT + WALL_THICKNESS*2, { isStatic: true, render: { visible: false } }), 
-      Bodies.rectangle(WORLD_WIDTH + WALL_THICKNESS/2, WORLD_HEIGHT/2, WALL_THICKNESS, WORLD_HEIGHT + WALL_THICKNESS*2, { isStatic: true, render: { visible: false } })
-    ]);
+    const bodyAt = (point: Matter.Vector): string | null => {
+        let hitId: string | null = null;
+        world.bodies.forEach((body, id) => {
+            if (Matter.Query.point([body], point).length > 0) hitId = id;
+        });
+        return hitId;
+    };
+
+    // Picking and edit dragging listen on the canvas itself: MouseConstraint only fires its
+    // events from engine updates, and there are none while the timeline is paused
+    const toWorld = (e: PointerEvent): Matter.Vector => {
+        const rect = render.canvas.getBoundingClientRect();
+        const bounds = render.bounds;
+        return {
+            x: bounds.min.x + ((e.clientX - rect.left) / rect.width) * (bounds.max.x - bounds.min.x),
+            y: bounds.min.y + ((e.clientY - rect.top) / rect.height) * (bounds.max.y - bounds.min.y),
+        };
+    };
+
+    // Simulation Mode: a click that doesn't drag the body picks it
+    let press: { id: string; point: Matter.Vector } | null = null;
+    // Edit Mode: select on click, drag to move
+    let drag: { body: Matter.Body; offset: Matter.Vector; moved: boolean } | null = null;
+
+    const handlePointerDown = (e: PointerEvent) => {
+        const point = toWorld(e);
+        const hitId = bodyAt(point);
+        if (!editModeRef.current) {
+            press = hitId && !world.bodies.get(hitId)!.isStatic ? { id: hitId, point } : null;
+            return;
+        }
+        onSelectBodyRef.current?.(hitId);
+        const body = hitId ? world.bodies.get(hitId) : undefined;
+        drag = body
+          ? { body, offset: { x: point.x - body.position.x, y: point.y - body.position.y }, moved: false }
+          : null;
+        if (drag) render.canvas.setPointerCapture(e.pointerId);
+    };
+    const handlePointerMove = (e: PointerEvent) => {
+        if (!editModeRef.current || !drag) return;
+        const point = toWorld(e);
+        Matter.Body.setPosition(drag.body, { x: point.x - drag.offset.x, y: point.y - drag.offset.y });
+        drag.moved = true;
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+        const point = toWorld(e);
+        if (press && !editModeRef.current) {
+            const { id, point: start } = press;
+            if (Math.hypot(point.x - start.x, point.y - start.y) <= CLICK_TOLERANCE) {
+                onBodyClickRef.current?.(id);
+            }
+        }
+        if (drag && drag.moved && editModeRef.current) {
+            onBodyMovedRef.current?.(drag.body.label, drag.body.position.x, drag.body.position.y);
+        }
+        press = null;
+        drag = null;
+    };
+    render.canvas.addEventListener('pointerdown', handlePointerDown);
+    render.canvas.addEventListener('pointermove', handlePointerMove);
+    render.canvas.addEventListener('pointerup', handlePointerUp);
+    render.canvas.addEventListener('pointercancel', handlePointerUp);
 
     // View Sync
     Events.on(render, 'beforeRender', () => {
@@ -198,7 +328,7 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ sceneConfig, physic
 
     // Collision
     Events.on(engine, 'collisionStart', (event) => {
-        if (!physicsState.enableCollisionEffects) return;
+        if (!physicsStateRef.current.enableCollisionEffects) return;
         event.pairs.forEach((pair) => {
             const collisionPoint = pair.collision.supports[0];
             if (collisionPoint) {
@@ -232,6 +362,53 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ sceneConfig, physic
             ctx.font = '12px monospace';
             ctx.fillText("SIMULATION BOUNDARY (800x600)", 10, -10);
 
+            // Ruler: ticks every 0.5 m along the bottom and left edges
+            ctx.strokeStyle = 'rgba(34, 211, 238, 0.6)';
+            ctx.lineWidth = 1;
+            ctx.font = '10px monospace';
+            const halfMeter = PIXELS_PER_METER / 2;
+            ctx.beginPath();
+            for (let i = 0; i * halfMeter <= WORLD_WIDTH_PX; i++) {
+                const x = i * halfMeter;
+                ctx.moveTo(x, WORLD_HEIGHT_PX);
+                ctx.lineTo(x, WORLD_HEIGHT_PX + (i % 2 === 0 ? 12 : 6));
+                if (i % 2 === 0) ctx.fillText(`${i / 2} m`, x + 2, WORLD_HEIGHT_PX + 22);
+            }
+            for (let i = 0; i * halfMeter <= WORLD_HEIGHT_PX; i++) {
+                // Measured up from the floor, like a height chart
+                const y = WORLD_HEIGHT_PX - i * halfMeter;
+                ctx.moveTo(0, y);
+                ctx.lineTo(i % 2 === 0 ? -12 : -6, y);
+                if (i % 2 === 0 && i > 0) ctx.fillText(`${i / 2}`, -26, y + 3);
+            }
+            ctx.stroke();
+
+            // Joints Matter can't draw itself
+            drawJoints(ctx, world.constraints.values());
+
+            // Measurement Overlays
+            if (hasAnyOverlay(overlaysRef.current)) {
+                drawMeasurements(ctx, world.bodies, overlaysRef.current, measurementsRef.current, physicsStateRef.current.gravity);
+            }
+
+            // Edit Selection
+            const selected = editModeRef.current && selectedBodyIdRef.current
+              ? world.bodies.get(selectedBodyIdRef.current)
+              : undefined;
+            if (selected) {
+                ctx.strokeStyle = '#facc15';
+                ctx.lineWidth = 2;
+                ctx.setLineDash([6, 4]);
+                const parts = selected.parts.length > 1 ? selected.parts.slice(1) : [selected];
+                parts.forEach(part => {
+                    ctx.beginPath();
+                    part.vertices.forEach((v, i) => i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y));
+                    ctx.closePath();
+                    ctx.stroke();
+                });
+                ctx.setLineDash([]);
+            }
+
             // Sparks
             const flash = (render as any).flash;
             if (flash && flash.frame < 10 && Number.isFinite(flash.x) && Number.isFinite(flash.y)) {
@@ -248,6 +425,24 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ sceneConfig, physic
             // 3D Effects
             Composite.allBodies(engine.world).forEach(body => {
                 if (!Number.isFinite(body.position.x) || !Number.isFinite(body.position.y)) return;
+                const shape = body.plugin?.shape;
+                if (body.render.visible && (shape === 'polygon' || shape === 'path')) {
+                    // Outline: gloss each convex part along its world-space vertices
+                    const w = body.bounds.max.x - body.bounds.min.x;
+                    const h = body.bounds.max.y - body.bounds.min.y;
+                    const gradient = ctx.createLinearGradient(body.bounds.min.x, body.bounds.min.y, body.bounds.min.x + w, body.bounds.min.y + h);
+                    gradient.addColorStop(0, 'rgba(255,255,255,0.3)');
+                    gradient.addColorStop(1, 'rgba(0,0,0,0.2)');
+                    ctx.fillStyle = gradient;
+                    const parts = body.parts.length > 1 ? body.parts.slice(1) : [body];
+                    parts.forEach(part => {
+                        ctx.beginPath();
+                        part.vertices.forEach((v, i) => i === 0 ? ctx.moveTo(v.x, v.y) : ctx.lineTo(v.x, v.y));
+                        ctx.closePath();
+                        ctx.fill();
+                    });
+                    return;
+                }
                 if (body.render.visible && body.render.fillStyle !== 'transparent') {
                     ctx.save();
                     ctx.translate(body.position.x, body.position.y);
@@ -289,40 +484,90 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ sceneConfig, physic
         }
     });
 
+    // Once per tick, after every substep (joints are already settled by then)
+    Events.on(engine, TICK_EVENT, () => measurementsRef.current.update(engine, world.bodies, TICK_MS));
+
+    // Timeline Recording (first frame is captured once the scene sync adds bodies)
+    historyRef.current = [];
+    cursorRef.current = 0;
+    // Counted separately from the cursor, which stops moving once the history is full
+    let ticksSinceReport = 0;
+    Events.on(engine, TICK_EVENT, () => {
+        const history = historyRef.current;
+        const time = currentTime() + (TICK_MS * engine.timing.timeScale) / 1000;
+        history.push({ time, bodies: readBodyStates(world) });
+        if (history.length > MAX_HISTORY_FRAMES) history.shift();
+        cursorRef.current = history.length - 1;
+        recordersRef.current.forEach(recorder => recorder.capture(time, world.bodies, physicsStateRef.current.gravity));
+        ticksSinceReport++;
+        if (!pausedRef.current && ticksSinceReport >= TIMELINE_REPORT_INTERVAL) {
+            ticksSinceReport = 0;
+            reportTimeline();
+        }
+    });
+
     Render.run(render);
-    const runner = Runner.create();
+    const runner = Runner.create({ delta: TICK_MS });
     runnerRef.current = runner;
+    syncRunner();
     Runner.run(runner, engine);
 
+    // Fixed-timestep mode: whole ticks from real elapsed time, never smoothed or skipped
+    const clock: FixedStepClock = { accumulator: 0 };
+    let lastFrameTime: number | null = null;
+    let frameId = requestAnimationFrame(function onFrame(now: number) {
+        frameId = requestAnimationFrame(onFrame);
+        const elapsed = lastFrameTime === null ? 0 : now - lastFrameTime;
+        lastFrameTime = now;
+        if (pausedRef.current || !physicsStateRef.current.fixedTimestep) {
+            clock.accumulator = 0;
+            return;
+        }
+        advanceFixedStep(world, clock, elapsed);
+    });
+    reportTimeline();
+
     return () => {
       render.canvas.removeEventListener('wheel', handleWheel);
+      render.canvas.removeEventListener('pointerdown', handlePointerDown);
+      render.canvas.removeEventListener('pointermove', handlePointerMove);
+      render.canvas.removeEventListener('pointerup', handlePointerUp);
+      render.canvas.removeEventListener('pointercancel', handlePointerUp);
+      cancelAnimationFrame(frameId);
       Render.stop(render);
       Runner.stop(runner);
       if (render.canvas) render.canvas.remove();
-      World.clear(engine.world, false);
-      Engine.clear(engine);
+      destroyWorld(world);
+      worldRef.current = null;
     };
-  }, [sceneConfig]); 
+  }, []);
+
+  // Edit mode turns off MouseConstraint grabbing so drags move bodies instead of flinging them
+  useEffect(() => {
+    const mouseConstraint = mouseConstraintRef.current;
+    if (!mouseConstraint) return;
+    mouseConstraint.collisionFilter.mask = editMode ? 0 : 0xFFFFFFFF;
+  }, [editMode]);
+
+  // Sync Scene: add, rebuild or remove only what changed in the live world
+  useEffect(() => {
+    const world = worldRef.current;
+    if (!world) return;
+    syncWorld(world, sceneConfig);
+
+    // Record the edited scene as a new frame; a rewound future is discarded like on play
+    truncateHistory();
+    historyRef.current.push({ time: currentTime(), bodies: readBodyStates(world) });
+    cursorRef.current = historyRef.current.length - 1;
+    measurementsRef.current.reset();
+    reportTimeline();
+  }, [sceneConfig]);
 
   // Update Physics (Gravity/Time)
   useEffect(() => {
-    if (engineRef.current) {
-        // Matter.js defaults: scale=0.001, y=1.
-        // If we map 9.81 m/s² (Earth) to Matter's y=1, we must scale inputs by 1/9.81.
-        // This ensures Earth is "Normal" speed, and Jupiter (24.79) is ~2.5x Normal speed.
-        // We also clamp to prevent crash.
-        const GRAVITY_SCALE_FACTOR = 1 / 9.81;
-        const normalizedY = physicsState.gravity.y * GRAVITY_SCALE_FACTOR;
-        const normalizedX = physicsState.gravity.x * GRAVITY_SCALE_FACTOR;
-
-        engineRef.current.gravity.x = isFinite(normalizedX) ? Math.min(Math.max(normalizedX, -10), 10) : 0;
-        engineRef.current.gravity.y = isFinite(normalizedY) ? Math.min(Math.max(normalizedY, -10), 10) : 1;
-      
-        if (runnerRef.current) {
-            engineRef.current.timing.timeScale = physicsState.timeScale;
-        }
-    }
-  }, [physicsState.gravity, physicsState.timeScale]);
+    if (worldRef.current) applyPhysics(worldRef.current, physicsState);
+    syncRunner();
+  }, [physicsState.gravity, physicsState.timeScale, physicsState.fixedTimestep, physicsState.substeps]);
 
   return (
     <div 
@@ -331,6 +576,6 @@ const SimulationCanvas: React.FC<SimulationCanvasProps> = ({ sceneConfig, physic
       style={{ touchAction: 'none' }} 
     />
   );
-};
+});
 
 export default SimulationCanvas;
\ No newline at end of file
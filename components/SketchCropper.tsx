@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { Crop, Maximize, X } from 'lucide-react';
+import { CropRect, FULL_FRAME, MIN_CROP, SKETCH_GUIDE, clampCrop } from '../services/imageImport';
+
+interface SketchCropperProps {
+  image: HTMLImageElement;
+  onConfirm: (crop: CropRect) => void;
+  onCancel: () => void;
+}
+
+type DragHandle = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface Drag {
+  handle: DragHandle;
+  start: { x: number; y: number }; // pointer, as fractions of the image
+  crop: CropRect; // at pointer down
+}
+
+const CORNERS: { handle: DragHandle; u: number; v: number; cursor: string }[] = [
+  { handle: 'nw', u: 0, v: 0, cursor: 'nwse-resize' },
+  { handle: 'ne', u: 1, v: 0, cursor: 'nesw-resize' },
+  { handle: 'sw', u: 0, v: 1, cursor: 'nesw-resize' },
+  { handle: 'se', u: 1, v: 1, cursor: 'nwse-resize' },
+];
+
+// Corner handles, as a share of the image's shorter side
+const HANDLE_SIZE = 0.04;
+
+// Resizing drags the grabbed corner and leaves the opposite one in place
+const applyDrag = (drag: Drag, dx: number, dy: number): CropRect => {
+  const { crop } = drag;
+  if (drag.handle === 'move') return clampCrop({ ...crop, x: crop.x + dx, y: crop.y + dy });
+  let left = crop.x;
+  let top = crop.y;
+  let right = crop.x + crop.width;
+  let bottom = crop.y + crop.height;
+  if (drag.handle.includes('w')) left = Math.min(Math.max(0, left + dx), right - MIN_CROP);
+  if (drag.handle.includes('e')) right = Math.max(Math.min(1, right + dx), left + MIN_CROP);
+  if (drag.handle.includes('n')) top = Math.min(Math.max(0, top + dy), bottom - MIN_CROP);
+  if (drag.handle.includes('s')) bottom = Math.max(Math.min(1, bottom + dy), top + MIN_CROP);
+  return clampCrop({ x: left, y: top, width: right - left, height: bottom - top });
+};
+
+// Frames the sketch inside an imported image, starting from the camera's alignment guide.
+// Cropping is optional: the whole image can be used as is.
+const SketchCropper: React.FC<SketchCropperProps> = ({ image, onConfirm, onCancel }) => {
+  const [crop, setCrop] = useState<CropRect>(SKETCH_GUIDE);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const w = image.naturalWidth;
+  const h = image.naturalHeight;
+
+  // Screen -> image fractions; the SVG letterboxes the image, so go through its transform
+  const toImage = (e: React.PointerEvent) => {
+    const svg = svgRef.current!;
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const local = point.matrixTransform(svg.getScreenCTM()!.inverse());
+    return { x: local.x / w, y: local.y / h };
+  };
+
+  const startDrag = (handle: DragHandle) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    svgRef.current!.setPointerCapture(e.pointerId);
+    dragRef.current = { handle, start: toImage(e), crop };
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toImage(e);
+    setCrop(applyDrag(drag, p.x - drag.start.x, p.y - drag.start.y));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const handle = HANDLE_SIZE * Math.min(w, h);
+  const box = { x: crop.x * w, y: crop.y * h, width: crop.width * w, height: crop.height * h };
+
+  return (
+    <div className="absolute inset-0 z-30 bg-gray-900 flex flex-col">
+      <div className="relative flex-1 min-h-0 p-4">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${w} ${h}`}
+          preserveAspectRatio="xMidYMid meet"
+          className="w-full h-full select-none touch-none"
+          onPointerMove={moveDrag}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+        >
+          <image href={image.src} width={w} height={h} />
+          {/* Dim everything outside the crop */}
+          <path
+            d={`M0 0H${w}V${h}H0Z M${box.x} ${box.y}V${box.y + box.height}H${box.x + box.width}V${box.y}Z`}
+            fill="rgba(0,0,0,0.5)"
+            fillRule="evenodd"
+            pointerEvents="none"
+          />
+          <rect
+            {...box}
+            fill="transparent"
+            stroke="#22d3ee"
+            strokeWidth={2}
+            strokeDasharray="8 6"
+            vectorEffect="non-scaling-stroke"
+            style={{ cursor: 'move' }}
+            onPointerDown={startDrag('move')}
+          />
+          {CORNERS.map(corner => (
+            <rect
+              key={corner.handle}
+              x={box.x + corner.u * box.width - handle / 2}
+              y={box.y + corner.v * box.height - handle / 2}
+              width={handle}
+              height={handle}
+              rx={handle / 6}
+              fill="#22d3ee"
+              style={{ cursor: corner.cursor }}
+              onPointerDown={startDrag(corner.handle)}
+            />
+          ))}
+        </svg>
+        <p className="absolute bottom-6 left-1/2 -translate-x-1/2 text-cyan-400/80 bg-black/50 px-3 py-1 rounded text-sm whitespace-nowrap pointer-events-none">
+          Align sketch here
+        </p>
+      </div>
+      <div className="flex gap-2 p-3 border-t border-gray-800">
+        <button
+          onClick={() => onConfirm(crop)}
+          className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-black font-bold"
+        >
+          <Crop size={18} />
+          Simulate Selection
+        </button>
+        <button
+          onClick={() => onConfirm(FULL_FRAME)}
+          className="flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-gray-700 text-cyan-300 hover:border-cyan-500"
+          title="Skip cropping and read the whole image"
+        >
+          <Maximize size={18} />
+          <span className="hidden sm:inline">Whole Image</span>
+        </button>
+        <button
+          onClick={onCancel}
+          className="p-2 rounded-lg text-gray-400 hover:text-red-400"
+          title="Back to camera"
+        >
+          <X size={20} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SketchCropper;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { ValidationWarning } from '../types';
+import { formatWarning } from '../services/sceneValidator';
+
+interface WarningsPanelProps {
+  warnings: ValidationWarning[];
+  onDismiss: () => void;
+}
+
+// Lists what the validator repaired or dropped in the last sketch/command result
+const WarningsPanel: React.FC<WarningsPanelProps> = ({ warnings, onDismiss }) => {
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="w-full rounded-xl border bg-amber-950/40 border-amber-700/50 text-amber-200 text-xs">
+      <div className="flex items-center gap-2 px-3 py-2">
+        <AlertTriangle size={16} className="text-amber-400 shrink-0" />
+        <details className="flex-1 min-w-0">
+          <summary className="cursor-pointer select-none">
+            {warnings.length} issue{warnings.length === 1 ? '' : 's'} in the model output were repaired or dropped
+          </summary>
+          <ul className="mt-2 space-y-1 font-mono max-h-32 overflow-auto">
+            {warnings.map((w, i) => <li key={i} className="truncate" title={formatWarning(w)}>{formatWarning(w)}</li>)}
+          </ul>
+        </details>
+        <button onClick={onDismiss} className="p-1 rounded text-amber-400 hover:bg-amber-900/50 self-start" title="Dismiss">
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WarningsPanel;
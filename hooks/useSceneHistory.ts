@@ -0,0 +1,69 @@
+import { useCallback, useRef, useState } from 'react';
+import { PhysicsState, SceneConfig } from '../types';
+
+export interface SceneSnapshot {
+  sceneConfig: SceneConfig | null;
+  physicsState: PhysicsState;
+}
+
+// A snapshot plus the summary of the command that moved away from it
+export interface HistoryEntry extends SceneSnapshot {
+  label: string;
+}
+
+const MAX_HISTORY = 50;
+
+// Undo/redo stacks of scene + physics snapshots. Stacks live in refs so
+// undo/redo can hand back the entry synchronously; `version` re-renders
+// consumers when the stacks change.
+export const useSceneHistory = () => {
+  const pastRef = useRef<HistoryEntry[]>([]);
+  const futureRef = useRef<HistoryEntry[]>([]);
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion(v => v + 1);
+
+  // Call before applying a change, with the state it is about to replace
+  const record = useCallback((label: string, snapshot: SceneSnapshot) => {
+    pastRef.current = [...pastRef.current, { ...snapshot, label }].slice(-MAX_HISTORY);
+    futureRef.current = [];
+    bump();
+  }, []);
+
+  const undo = useCallback((current: SceneSnapshot): HistoryEntry | null => {
+    const entry = pastRef.current[pastRef.current.length - 1];
+    if (!entry) return null;
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, { ...current, label: entry.label }];
+    bump();
+    return entry;
+  }, []);
+
+  const redo = useCallback((current: SceneSnapshot): HistoryEntry | null => {
+    const entry = futureRef.current[futureRef.current.length - 1];
+    if (!entry) return null;
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, { ...current, label: entry.label }];
+    bump();
+    return entry;
+  }, []);
+
+  const clear = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    bump();
+  }, []);
+
+  const past = pastRef.current;
+  const future = futureRef.current;
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    undoLabel: past[past.length - 1]?.label,
+    redoLabel: future[future.length - 1]?.label,
+  };
+};
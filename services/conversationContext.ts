@@ -0,0 +1,43 @@
+import { ConversationTurn, VoiceCommandResponse } from "../types";
+
+// Rough budget for the conversation section of the command prompt.
+// Older turns are dropped first; the scene itself is always sent in full.
+export const CONVERSATION_TOKEN_BUDGET = 600;
+
+// ~4 characters per token is close enough for budgeting English prompts
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const createConversationTurn = (transcript: string, response: VoiceCommandResponse): ConversationTurn => {
+  const ids = [
+    ...(response.newBodies || []).map(b => b.id),
+    ...(response.updatedBodies || []).map(b => b.id),
+    ...(response.removeBodyIds || []),
+    ...(response.plot?.bodyIds || []),
+  ];
+  return {
+    transcript: transcript.trim(),
+    summary: response.summary || "",
+    touchedIds: Array.from(new Set(ids)),
+  };
+};
+
+export const formatConversationTurn = (turn: ConversationTurn, index: number): string => {
+  const ids = turn.touchedIds.length > 0 ? turn.touchedIds.map(id => `"${id}"`).join(', ') : 'none';
+  return `${index + 1}. USER: "${turn.transcript}" -> RESULT: ${turn.summary || 'no summary'} (touched IDs: ${ids})`;
+};
+
+// Newest turns that fit in the budget, oldest first
+export const selectConversationTurns = (
+  turns: ConversationTurn[],
+  budget: number = CONVERSATION_TOKEN_BUDGET
+): ConversationTurn[] => {
+  const selected: ConversationTurn[] = [];
+  let used = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(formatConversationTurn(turns[i], i));
+    if (used + cost > budget) break;
+    used += cost;
+    selected.unshift(turns[i]);
+  }
+  return selected;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import Matter from 'matter-js';
+import { createDataRecorder } from './dataRecorder';
+
+const GRAVITY = { x: 0, y: 9.81 };
+const TICK = 1 / 60;
+
+const ballMap = () => new Map([['ball', Matter.Bodies.circle(400, 100, 20)]]);
+
+describe('createDataRecorder', () => {
+  it('keeps only the latest maxDuration seconds over a long run', () => {
+    const recorder = createDataRecorder({ maxDuration: 2 });
+    recorder.start();
+    const bodies = ballMap();
+    for (let tick = 0; tick <= 600; tick++) recorder.capture(tick * TICK, bodies, GRAVITY);
+
+    const samples = recorder.samples();
+    expect(samples[0].t).toBeGreaterThanOrEqual(10 - 2 - 1e-9);
+    expect(samples[samples.length - 1].t).toBeCloseTo(10);
+    expect(samples.length).toBe(121);
+  });
+
+  it('hands back the same array until samples change', () => {
+    const recorder = createDataRecorder({ maxDuration: 2 });
+    recorder.start();
+    const bodies = ballMap();
+    recorder.capture(0, bodies, GRAVITY);
+    const first = recorder.samples();
+    expect(recorder.samples()).toBe(first);
+
+    recorder.capture(TICK, bodies, GRAVITY);
+    const second = recorder.samples();
+    expect(second).not.toBe(first);
+    expect(second).toHaveLength(2);
+
+    recorder.discardAfter(0);
+    expect(recorder.samples()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,151 @@
+import Matter from 'matter-js';
+import { Point } from '../types';
+import { PIXELS_PER_METER, WORLD_HEIGHT_PX } from './units';
+
+// Matter velocities are per 1000/60 ms base tick of simulated time
+const BASE_TICKS_PER_SECOND = 60;
+// Matter builds every body with 4x its true moment of inertia to stiffen rotation (Body._inertiaScale)
+const MATTER_INERTIA_SCALE = 4;
+
+// One body's state at one engine tick, in SI units.
+// y and potential energy are measured up from the bottom of the canvas.
+export interface DataSample {
+  t: number; // simulated seconds
+  bodyId: string;
+  x: number; // m
+  y: number; // m
+  vx: number; // m/s
+  vy: number; // m/s, positive up
+  speed: number; // m/s
+  angle: number; // rad
+  kinetic: number; // J, translational + rotational
+  potential: number; // J
+}
+
+const SAMPLE_COLUMNS: (keyof DataSample)[] = ['t', 'bodyId', 'x', 'y', 'vx', 'vy', 'speed', 'angle', 'kinetic', 'potential'];
+
+// gravity is in m/s² with y down, as in PhysicsState
+export const sampleBody = (t: number, id: string, body: Matter.Body, gravity: Point): DataSample => {
+  const v = Matter.Body.getVelocity(body);
+  const vx = (v.x * BASE_TICKS_PER_SECOND) / PIXELS_PER_METER;
+  const vy = (-v.y * BASE_TICKS_PER_SECOND) / PIXELS_PER_METER;
+  const omega = Matter.Body.getAngularVelocity(body) * BASE_TICKS_PER_SECOND;
+  // Undo Matter's scaling and convert px² to m²
+  const inertia = body.inertia / MATTER_INERTIA_SCALE / PIXELS_PER_METER ** 2;
+  const x = body.position.x / PIXELS_PER_METER;
+  const y = (WORLD_HEIGHT_PX - body.position.y) / PIXELS_PER_METER;
+  return {
+    t,
+    bodyId: id,
+    x,
+    y,
+    vx,
+    vy,
+    speed: Math.hypot(vx, vy),
+    angle: body.angle,
+    kinetic: 0.5 * body.mass * (vx * vx + vy * vy) + 0.5 * inertia * omega * omega,
+    potential: body.mass * (gravity.y * y - gravity.x * x),
+  };
+};
+
+// Collects samples for the chosen bodies (or every dynamic body if none are given) while
+// recording. Call capture() after every engine tick and discardAfter() when a rewound
+// timeline is resumed. With maxDuration, only the latest maxDuration seconds are kept.
+export const createDataRecorder = (options: { maxDuration?: number } = {}) => {
+  let recording = false;
+  let bodyIds: string[] | null = [];
+  // Samples before head have expired; they are dropped in one go once they make up half the buffer
+  let samples: DataSample[] = [];
+  let head = 0;
+  // What samples() last returned, until the next change
+  let view: DataSample[] | null = null;
+
+  const reset = () => {
+    samples = [];
+    head = 0;
+    view = null;
+  };
+
+  const start = (ids?: string[]) => {
+    bodyIds = ids ? [...ids] : null;
+    reset();
+    recording = !ids || ids.length > 0;
+  };
+
+  const capture = (t: number, bodies: Map<string, Matter.Body>, gravity: Point) => {
+    if (!recording) return;
+    const record = (id: string, body: Matter.Body | undefined) => {
+      if (body && Number.isFinite(body.position.x) && Number.isFinite(body.position.y)) {
+        samples.push(sampleBody(t, id, body, gravity));
+      }
+    };
+    if (bodyIds) bodyIds.forEach(id => record(id, bodies.get(id)));
+    else bodies.forEach((body, id) => { if (!body.isStatic) record(id, body); });
+    view = null;
+
+    if (options.maxDuration !== undefined) {
+      const oldest = t - options.maxDuration;
+      while (head < samples.length && samples[head].t < oldest) head++;
+      if (head > 0 && head * 2 >= samples.length) {
+        samples = samples.slice(head);
+        head = 0;
+      }
+    }
+  };
+
+  return {
+    start,
+    stop: () => { recording = false; },
+    clear: () => {
+      recording = false;
+      bodyIds = [];
+      reset();
+    },
+    capture,
+    // Samples from a future that was rewound over no longer happened
+    discardAfter: (t: number) => {
+      samples = samples.slice(head).filter(sample => sample.t <= t);
+      head = 0;
+      view = null;
+    },
+    isRecording: () => recording,
+    bodyIds: (): string[] => bodyIds || [],
+    // A new array only after samples were added or dropped, so callers can memoize on it
+    samples: (): DataSample[] => {
+      if (!view) view = samples.slice(head);
+      return view;
+    },
+  };
+};
+
+export type DataRecorder = ReturnType<typeof createDataRecorder>;
+
+const formatNumber = (value: number) => String(Number(value.toFixed(6)));
+
+export const samplesToCsv = (samples: DataSample[]): string => {
+  const rows = samples.map(sample =>
+    SAMPLE_COLUMNS.map(column => {
+      const value = sample[column];
+      return typeof value === 'number' ? formatNumber(value) : `"${value.replace(/"/g, '""')}"`;
+    }).join(',')
+  );
+  return [SAMPLE_COLUMNS.join(','), ...rows].join('\n');
+};
+
+export const samplesToJson = (samples: DataSample[]): string =>
+  JSON.stringify({
+    units: { t: 's', x: 'm', y: 'm', vx: 'm/s', vy: 'm/s', speed: 'm/s', angle: 'rad', kinetic: 'J', potential: 'J' },
+    samples,
+  }, null, 2);
+
+// Triggers a browser download of recorded samples as <name>.csv or <name>.json
+export const downloadSamples = (samples: DataSample[], format: 'csv' | 'json', name = 'galileo-data') => {
+  const text = format === 'csv' ? samplesToCsv(samples) : samplesToJson(samples);
+  const blob = new Blob([text], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,90 @@
+import { BodyDef, ConstraintDef, Point, SceneConfig } from "../types";
+import { CropRect } from "./imageImport";
+import { WORLD_HEIGHT_PX, WORLD_WIDTH_PX } from "./units";
+
+// Camera frame -> captured image -> world. Providers read the captured image and answer in
+// its own pixels; the image is then fit inside the 800x600 world without stretching.
+
+// Pixel size of the image a scene is read from
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Image px -> world px: world = offset + image * scale
+export interface FrameTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Largest uniform scale that fits the image in the world, centered (bars on the short sides)
+export const letterbox = (size: ImageSize): FrameTransform => {
+  const scale = Math.min(WORLD_WIDTH_PX / size.width, WORLD_HEIGHT_PX / size.height);
+  return {
+    scale,
+    offsetX: (WORLD_WIDTH_PX - size.width * scale) / 2,
+    offsetY: (WORLD_HEIGHT_PX - size.height * scale) / 2,
+  };
+};
+
+export const imageToWorld = (p: Point, t: FrameTransform): Point => ({ x: t.offsetX + p.x * t.scale, y: t.offsetY + p.y * t.scale });
+
+export const worldToImage = (p: Point, t: FrameTransform): Point => ({ x: (p.x - t.offsetX) / t.scale, y: (p.y - t.offsetY) / t.scale });
+
+// Lengths and offsets only scale; positions also move. Angles and axes are unchanged
+// because the scale is the same in x and y.
+const mapBody = (body: BodyDef, toWorld: (p: Point) => Point, scale: number): BodyDef => {
+  const mapped: BodyDef = { ...body, ...toWorld(body) };
+  if (body.width !== undefined) mapped.width = body.width * scale;
+  if (body.height !== undefined) mapped.height = body.height * scale;
+  if (body.radius !== undefined) mapped.radius = body.radius * scale;
+  if (body.vertices) mapped.vertices = body.vertices.map(v => ({ x: v.x * scale, y: v.y * scale }));
+  return mapped;
+};
+
+const mapConstraint = (constraint: ConstraintDef, toWorld: (p: Point) => Point, scale: number): ConstraintDef => {
+  const mapped: ConstraintDef = { ...constraint };
+  if (constraint.pointA) mapped.pointA = { x: constraint.pointA.x * scale, y: constraint.pointA.y * scale };
+  if (constraint.pointB) {
+    // Without bodyB, pointB is a place in the image rather than an offset
+    mapped.pointB = constraint.bodyBId
+      ? { x: constraint.pointB.x * scale, y: constraint.pointB.y * scale }
+      : toWorld(constraint.pointB);
+  }
+  if (constraint.length !== undefined) mapped.length = constraint.length * scale;
+  return mapped;
+};
+
+// Re-expresses a scene between image and world px (world -> image with inverse)
+export const mapScene = (scene: SceneConfig, t: FrameTransform, inverse = false): SceneConfig => {
+  const toWorld = (p: Point) => (inverse ? worldToImage(p, t) : imageToWorld(p, t));
+  const scale = inverse ? 1 / t.scale : t.scale;
+  return {
+    bodies: scene.bodies.map(b => mapBody(b, toWorld, scale)),
+    constraints: scene.constraints.map(c => mapConstraint(c, toWorld, scale)),
+  };
+};
+
+// The part of a source frame left visible when it is shown with object-cover in a viewport
+// of the given aspect (width / height), as fractions of the source
+export const coverCrop = (source: ImageSize, viewAspect: number): CropRect => {
+  const sourceAspect = source.width / source.height;
+  if (sourceAspect > viewAspect) {
+    const width = viewAspect / sourceAspect;
+    return { x: (1 - width) / 2, y: 0, width, height: 1 };
+  }
+  const height = sourceAspect / viewAspect;
+  return { x: 0, y: (1 - height) / 2, width: 1, height };
+};
+
+// A crop given as fractions of another crop, as fractions of the whole image
+export const innerCrop = (outer: CropRect, inner: CropRect): CropRect => ({
+  x: outer.x + inner.x * outer.width,
+  y: outer.y + inner.y * outer.height,
+  width: inner.width * outer.width,
+  height: inner.height * outer.height,
+});
+
+// The same crop seen in a horizontally mirrored image
+export const mirrorCrop = (crop: CropRect): CropRect => ({ ...crop, x: 1 - crop.x - crop.width });
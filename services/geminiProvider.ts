@@ -0,0 +1,434 @@
+import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
+import { SceneConfig, VoiceCommandResponse } from "../types";
+import { SceneProvider, CommandRequest } from "./sceneProvider";
+import { formatConversationTurn } from "./conversationContext";
+import { PIXELS_PER_METER } from "./units";
+import { ImageSize, letterbox } from "./frameTransform";
+
+// Created on first use so the app can boot (and run on another provider) without an API key
+let ai: GoogleGenAI | null = null;
+const getClient = (): GoogleGenAI => {
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return ai;
+};
+
+// Use Flash for vision speed
+const VISION_MODEL = "gemini-2.5-flash"; 
+// Use Flash for voice speed
+const VOICE_MODEL = "gemini-2.5-flash";
+
+// Increased timeout to 60s for slower connections/larger audio
+const timeoutPromise = (ms: number) => new Promise<never>((_, reject) => 
+  setTimeout(() => reject(new Error(`Request timed out after ${ms/1000}s`)), ms)
+);
+
+// Helper to clean JSON string if model adds markdown blocks or conversational text
+const cleanJson = (text: string): string => {
+  // First strip markdown code blocks
+  let cleaned = text.replace(/```json/g, '').replace(/```/g, '');
+  
+  // Find the first '{' and last '}' to extract the JSON object
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  
+  if (start !== -1 && end !== -1) {
+    return cleaned.substring(start, end + 1);
+  }
+  
+  return cleaned.trim();
+};
+
+// Polygon / freehand outline vertices, relative to the body's (x, y)
+const VERTICES_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+    required: ["x", "y"],
+  },
+};
+
+const POINT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+  required: ["x", "y"],
+};
+
+// Typed joints shared by the sketch and command schemas (see ConstraintDef in types.ts)
+const CONSTRAINT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    type: { type: Type.STRING, enum: ["spring", "rope", "revolute", "prismatic", "motor"] },
+    bodyAId: { type: Type.STRING },
+    bodyBId: { type: Type.STRING },
+    pointA: POINT_SCHEMA,
+    pointB: POINT_SCHEMA,
+    length: { type: Type.NUMBER },
+    stiffness: { type: Type.NUMBER },
+    damping: { type: Type.NUMBER },
+    axis: POINT_SCHEMA,
+    motorSpeed: { type: Type.NUMBER },
+  },
+  required: ["bodyAId"],
+};
+
+// Prompt section shared by sketch analysis and commands
+const JOINT_RULES = `
+       - "spring": zig-zag line or coil between two shapes. Set 'length' (rest length), 'stiffness' (0.01 soft to 0.2 stiff) and 'damping' (0 to 1).
+       - "rope": string, cable or a line over a pulley. 'length' is the maximum length; the rope goes slack when shorter.
+       - "revolute": hinge / pin / axle. Bodies rotate about a shared point. 'pointA' and 'pointB' are offsets from each body's center (if there is no bodyBId, 'pointB' is the world point).
+       - "prismatic": slider / piston / rail. bodyAId slides along 'axis' (e.g. {x:1,y:0} horizontal) through the anchor ('pointB' or bodyB's center). 'length' is the total travel.
+       - "motor": motorized wheel. Like revolute, and bodyAId spins at 'motorSpeed' rad/s (positive is clockwise, about 3 for a slow wheel).
+       - A plain pendulum line with no type is fine (a stiff link).
+       - PULLEY: a static circle (the wheel) plus two "rope" joints from the wheel to each hanging body.`;
+
+// Scene context for prompts: one line per body, including DIMENSIONS and FRICTION
+const describeBodies = (scene: SceneConfig | null | undefined): string =>
+  (scene?.bodies || []).map(b => {
+    const dim = b.type === 'circle'
+      ? `r:${Math.round(b.radius || 0)}`
+      : b.type === 'polygon' || b.type === 'path'
+        ? `vertices:${b.vertices?.length || 0}`
+        : `w:${Math.round(b.width || 0)} h:${Math.round(b.height || 0)}`;
+    const fric = b.friction !== undefined ? ` friction:${b.friction}` : '';
+    const mass = b.mass !== undefined ? ` mass:${b.mass}kg` : '';
+    const bounce = b.restitution !== undefined ? ` restitution:${b.restitution}` : '';
+    const drag = b.frictionAir !== undefined ? ` frictionAir:${b.frictionAir}` : '';
+    return `- ${b.type} (ID: "${b.id}") at [${Math.round(b.x)}, ${Math.round(b.y)}] size[${dim}] (px)${fric}${mass}${bounce}${drag}`;
+  }).join('\n');
+
+const describeJoints = (scene: SceneConfig | null | undefined): string =>
+  (scene?.constraints || []).map(c =>
+    `- ${c.type || 'link'} from "${c.bodyAId}" to ${c.bodyBId ? `"${c.bodyBId}"` : 'a fixed point'}${c.length !== undefined ? ` length:${Math.round(c.length)}` : ''}`
+  ).join('\n');
+
+const analyzeSketch = async (base64Image: string, size: ImageSize, existing?: SceneConfig): Promise<SceneConfig> => {
+  // The app fits the image into its world; say how big a meter is in this image's pixels
+  const pixelsPerMeter = Math.round((PIXELS_PER_METER / letterbox(size).scale) * 10) / 10;
+  // Adding to a scene built from an earlier photo of the same page: only report what's new
+  const additions = existing && existing.bodies.length > 0 ? `
+    5. ADDITIONS ONLY: This page was photographed before. These bodies already exist (in this image's px):
+    ${describeBodies(existing)}
+    Existing joints:
+    ${describeJoints(existing) || "None."}
+    Return ONLY shapes and joints drawn since then. Do not repeat any existing body.
+    A new joint may attach to an existing body by its ID.
+  ` : '';
+  const prompt = `
+    Analyze this physics sketch (image ${size.width}x${size.height} px).
+    Identify physics bodies.
+    
+    CRITICAL INTERPRETATION RULES:
+    1. SOLID SHAPES vs LINES: 
+       - If you see a SQUARE, RECTANGLE, or CIRCLE drawn as an outline, interpret it as a SINGLE SOLID BODY. 
+       - DO NOT break a square into 4 separate line segments.
+       - DO NOT break a circle into arcs.
+    
+    2. CLASSIFICATION:
+       - Square/Box/Block -> DYNAMIC RECTANGLE (isStatic: false).
+       - Circle/Ball -> DYNAMIC CIRCLE (isStatic: false).
+       - Long single line / Horizon -> STATIC WALL/FLOOR (isStatic: true).
+       - "U" shape or "Bucket" -> 3 Static Walls.
+       - Triangle / Wedge / Ramp with a sloped face -> POLYGON with 'vertices' (isStatic: true for ramps).
+       - Irregular closed outline (rock, blob) -> PATH with 'vertices' tracing the outline.
+       - POLYGON and PATH vertices are RELATIVE to the body's (x, y), which is the shape's center.
+    
+    3. PENDULUMS: If a shape is hanging from a line, create a constraint.
+       JOINTS (set 'type' on the constraint when the drawing shows one):${JOINT_RULES}
+    
+    4. COORDINATES: Pixels of this image, ${size.width} wide and ${size.height} tall. (0,0 is top-left). Scale: ${pixelsPerMeter} px = 1 m.
+       If the sketch labels a length ("2 m", "50 cm"), size that body from the label.
+    ${additions}
+    Return JSON.
+  `;
+
+  const response = await Promise.race([
+    getClient().models.generateContent({
+      model: VISION_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: "image/jpeg", data: base64Image } },
+          { text: prompt },
+        ],
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            bodies: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  type: { type: Type.STRING, enum: ["circle", "rectangle", "polygon", "path"] },
+                  x: { type: Type.NUMBER },
+                  y: { type: Type.NUMBER },
+                  width: { type: Type.NUMBER },
+                  height: { type: Type.NUMBER },
+                  radius: { type: Type.NUMBER },
+                  vertices: VERTICES_SCHEMA,
+                  angle: { type: Type.NUMBER },
+                  isStatic: { type: Type.BOOLEAN },
+                  color: { type: Type.STRING },
+                  friction: { type: Type.NUMBER },
+                  mass: { type: Type.NUMBER },
+                  density: { type: Type.NUMBER },
+                  restitution: { type: Type.NUMBER },
+                  frictionAir: { type: Type.NUMBER },
+                },
+                required: ["id", "type", "x", "y", "isStatic"],
+              },
+            },
+            constraints: {
+              type: Type.ARRAY,
+              items: CONSTRAINT_SCHEMA,
+            },
+          },
+          required: ["bodies"],
+        },
+      },
+    }),
+    timeoutPromise(30000)
+  ]) as GenerateContentResponse;
+
+  if (response.text) {
+    return JSON.parse(cleanJson(response.text));
+  }
+  throw new Error("No data returned from Gemini");
+};
+
+const interpretCommand = async ({
+  audioBase64,
+  mimeType,
+  transcript: transcriptHint,
+  currentScene,
+  conversation = [],
+}: CommandRequest): Promise<VoiceCommandResponse> => {
+  const bodyContext = describeBodies(currentScene) || "No bodies in scene.";
+  const jointContext = describeJoints(currentScene) || "No joints.";
+
+  const conversationContext = conversation.map(formatConversationTurn).join('\n') || "None (this is the first command).";
+
+  const prompt = `
+    You are an omnipotent physics engine assistant. 
+    Canvas Size: 800x600 px. Center: 400, 300.
+    World Scale: ${PIXELS_PER_METER} px = 1 m (the canvas is ${800 / PIXELS_PER_METER} m wide and ${600 / PIXELS_PER_METER} m tall). All coordinates and sizes you return are in px.
+    
+    ********************************************************
+    CONTEXT:
+    INPUT: ${audioBase64 ? 'Spoken audio (the transcript below is a hint)' : 'Typed text (no audio, the transcript IS the command)'}
+    TRANSCRIPT: "${transcriptHint}"
+    EXISTING BODIES:
+    ${bodyContext}
+    EXISTING JOINTS:
+    ${jointContext}
+    EARLIER COMMANDS (oldest first):
+    ${conversationContext}
+    ********************************************************
+
+    INSTRUCTIONS:
+    1. INTELLIGENT TYPO CORRECTION:
+       - The transcript may have phonetic errors. INTERPRET INTENT based on physics context.
+       - "Fiction" -> "Friction".
+       - "Pendelum" / "Pandulum" -> "Pendulum".
+       - "Wait" -> "Weight" (implies mass).
+       - "Mask" -> "Mass".
+    
+    2. CREATION RULES (ADD):
+       - "Platform" / "Ground" / "Floor" -> Create STATIC rectangle.
+       - "Wall" -> Create STATIC vertical rectangle.
+       - When adding a new body, APPLY ALL ADJECTIVES IMMEDIATELY to 'newBodies'.
+       - "Add a slippery box" -> Create box in 'newBodies' with friction: 0.001.
+       - "Add a red ball" -> Create ball in 'newBodies' with color: "#ff0000".
+       - "Add a heavy block" -> Create rectangle with mass: 20 (DO NOT just make it bigger).
+       - "Add a 5 kg block" -> Create rectangle with mass: 5.
+    
+    3. PROPERTIES & MODIFIERS:
+       - FRICTION (0.0 to 1.0): 
+          * "Ice", "Slippery", "No friction" -> friction: 0.001
+          * "Normal" -> friction: 0.1
+          * "Sticky", "Rough", "High friction", "With friction" -> friction: 0.9
+       - MASS (kg, 0.01 to 1000):
+          * Explicit values ("5 kg", "500 grams") -> mass in kg (500 grams -> 0.5).
+          * "Heavy" -> mass: 20. "Light" / "Feather" -> mass: 0.1.
+       - DENSITY: Only set 'density' when the user names a material and no mass ("a lead ball" -> 0.01, "a foam block" -> 0.0002). Default 0.001.
+       - BOUNCINESS / RESTITUTION (0.0 to 1.0):
+          * "Bouncy", "Bouncier", "Rubber" -> restitution: 0.9
+          * "Super bouncy" -> restitution: 1.0
+          * "Not bouncy", "Dead", "Clay" -> restitution: 0.05
+          * Default is 0.6.
+       - AIR DRAG / FRICTIONAIR (0.0 to 1.0):
+          * "No air resistance", "Vacuum" -> frictionAir: 0
+          * "Air resistance", "Parachute", "Feather" -> frictionAir: 0.05
+          * "In water", "Syrup", "Honey" -> frictionAir: 0.2
+          * Default is 0.01.
+       - METRIC SIZES (convert with ${PIXELS_PER_METER} px per meter):
+          * "A 2 meter ramp" -> ramp 200 px wide. "A 50 cm box" -> width: 50, height: 50.
+          * "A ball with a 30 cm radius" -> radius: 30. "A 1 meter ball" means diameter -> radius: 50.
+          * "A 1.5 m pendulum" -> bob center 150 px from the pivot (constraint length: 150).
+          * "Drop it from 3 meters" -> 300 px above the floor's top edge (y: 560 - 300 = 260 for the default floor).
+       - POSITION:
+          * If position is not specified for a new object, place it near the center (x:400, y:200) so it drops.
+          * "Floor" / "Ground" -> y: 580, width: 800, height: 40.
+
+    4. GRAVITY & PHYSICS (CRITICAL: Units are m/s²):
+       - DEFAULT EARTH GRAVITY is 9.81.
+       - "Moon" gravity -> y: 1.62.
+       - "Mars" gravity -> y: 3.71.
+       - "Jupiter" or "High" gravity -> y: 24.79.
+       - "Zero" / "No" gravity -> y: 0.
+       - "Invert" / "Reverse" gravity -> y: -9.81.
+       - TIME SCALE: Default is 1. DO NOT change 'timeScale' unless the user explicitly asks for "Slow motion" (0.5) or "Fast forward" (2.0).
+
+    5. COMPLEX OBJECTS:
+       - "Pendulum" -> 
+         * Create Body A: Static small circle (Pivot).
+         * Create Body B: Dynamic circle (Bob).
+         * Create Constraint: Connect A and B.
+       - "Ramp" / "Wedge" -> Static POLYGON (right triangle) with 'vertices' relative to (x, y),
+         e.g. [{x:-150,y:50},{x:150,y:50},{x:150,y:-50}] for a slope rising to the right.
+       - "Triangle" -> POLYGON with 3 'vertices'.
+       - "Rock" / irregular shape -> PATH with 6-12 'vertices' tracing an uneven outline.
+       - JOINTS in 'newConstraints' (set 'type'):${JOINT_RULES}
+       - "Connect the ball to the box with a spring" -> newConstraints: [{type:"spring", bodyAId:ball, bodyBId:box, length:150, stiffness:0.05, damping:0.05}].
+       - "Add a motorized wheel" -> a dynamic circle and a "motor" joint pinning it to its own center (pointB = its x, y).
+
+    6. ACTIONS:
+       - MODIFY: If the user says "Make the box slippery", find the 'box' in EXISTING BODIES and return it in 'updatedBodies' with new friction.
+         "Make the ball bouncier" -> return the ball in 'updatedBodies' with a higher restitution.
+       - ADD: Return in 'newBodies'.
+       - REMOVE: Return ID in 'removeBodyIds'.
+       - GRAPH: "Graph the ball's height" / "Plot its speed" / "Chart the energy" -> 'plot' with quantity
+         "height", "speed" or "energy" and the IDs to plot in 'bodyIds'. Energy is for the whole system (bodyIds may be empty).
+         Graphing changes nothing in the scene; do not return the body in 'updatedBodies'.
+
+    7. FOLLOW-UPS (use EARLIER COMMANDS):
+       - "It" / "that" / "them" refer to the touched IDs of the most recent command, unless the transcript names another body.
+       - "Make it bigger" after adding a ball -> return that ball in 'updatedBodies' with a larger radius.
+       - "Do that again but red" -> repeat the most recent command's action with color "#ff0000" (new bodies get new IDs).
+       - Only use touched IDs that still appear in EXISTING BODIES; removed bodies cannot be modified.
+
+    Return JSON only. No markdown. No explanations.
+  `;
+
+  const response = await Promise.race([
+    getClient().models.generateContent({
+      model: VOICE_MODEL,
+      contents: {
+        parts: audioBase64
+          ? [
+              { inlineData: { mimeType: mimeType || "audio/wav", data: audioBase64 } },
+              { text: prompt },
+            ]
+          : [{ text: prompt }],
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            summary: { type: Type.STRING },
+            physicsUpdates: {
+              type: Type.OBJECT,
+              properties: {
+                gravity: {
+                  type: Type.OBJECT,
+                  properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+                },
+                timeScale: { type: Type.NUMBER },
+                enableCollisionEffects: { type: Type.BOOLEAN },
+              },
+            },
+            newBodies: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  type: { type: Type.STRING },
+                  x: { type: Type.NUMBER },
+                  y: { type: Type.NUMBER },
+                  width: { type: Type.NUMBER },
+                  height: { type: Type.NUMBER },
+                  radius: { type: Type.NUMBER },
+                  vertices: VERTICES_SCHEMA,
+                  angle: { type: Type.NUMBER },
+                  isStatic: { type: Type.BOOLEAN },
+                  color: { type: Type.STRING },
+                  friction: { type: Type.NUMBER },
+                  mass: { type: Type.NUMBER },
+                  density: { type: Type.NUMBER },
+                  restitution: { type: Type.NUMBER },
+                  frictionAir: { type: Type.NUMBER },
+                },
+                required: ["id", "type", "x", "y", "isStatic"],
+              },
+            },
+            updatedBodies: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  id: { type: Type.STRING },
+                  type: { type: Type.STRING },
+                  x: { type: Type.NUMBER },
+                  y: { type: Type.NUMBER },
+                  width: { type: Type.NUMBER },
+                  height: { type: Type.NUMBER },
+                  radius: { type: Type.NUMBER },
+                  vertices: VERTICES_SCHEMA,
+                  angle: { type: Type.NUMBER },
+                  isStatic: { type: Type.BOOLEAN },
+                  color: { type: Type.STRING },
+                  friction: { type: Type.NUMBER },
+                  mass: { type: Type.NUMBER },
+                  density: { type: Type.NUMBER },
+                  restitution: { type: Type.NUMBER },
+                  frictionAir: { type: Type.NUMBER },
+                },
+                required: ["id"],
+              },
+            },
+            newConstraints: {
+              type: Type.ARRAY,
+              items: CONSTRAINT_SCHEMA,
+            },
+            removeBodyIds: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+            },
+            plot: {
+              type: Type.OBJECT,
+              properties: {
+                quantity: { type: Type.STRING },
+                bodyIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+              },
+              required: ["quantity"],
+            },
+          },
+          required: ["summary"]
+        },
+      },
+    }),
+    // Increased timeout to 30s to prevent early termination
+    timeoutPromise(30000)
+  ]) as GenerateContentResponse;
+
+  if (response.text) {
+    try {
+      return JSON.parse(cleanJson(response.text));
+    } catch (parseError) {
+      console.error("JSON Parse Error:", parseError, "Raw Text:", response.text);
+      throw new Error("I heard you, but I couldn't process the command (Invalid Response).");
+    }
+  }
+  throw new Error("I couldn't understand what you mean.");
+};
+
+export const geminiProvider: SceneProvider = {
+  name: 'gemini',
+  analyzeSketch,
+  interpretCommand,
+};
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PhysicsState, SceneConfig } from '../types';
+import { analyzeSketch, interpretTextCommand } from './geminiService';
+import { setSceneProvider } from './sceneProvider';
+
+const EARTH: PhysicsState = { gravity: { x: 0, y: 9.81 }, timeScale: 1, enableCollisionEffects: true };
+
+const SCENE: SceneConfig = {
+  bodies: [
+    { id: 'floor', type: 'rectangle', x: 400, y: 580, width: 800, height: 40, isStatic: true },
+    { id: 'ball', type: 'circle', x: 200, y: 100, radius: 20, isStatic: false },
+  ],
+  constraints: [],
+};
+
+describe('geminiService with the mock provider', () => {
+  afterEach(() => setSceneProvider('gemini'));
+
+  it('reads a sketch into a validated world scene', async () => {
+    setSceneProvider('mock');
+    const { sceneConfig, warnings } = await analyzeSketch('', { width: 1280, height: 720 });
+
+    expect(warnings).toEqual([]);
+    expect(sceneConfig.bodies.map(b => b.id)).toEqual(['floor', 'ramp', 'ball', 'box', 'pivot', 'bob']);
+    const ball = sceneConfig.bodies.find(b => b.id === 'ball')!;
+    expect(ball.x).toBeCloseTo(160);
+    expect(ball.y).toBeCloseTo(380);
+    expect(sceneConfig.constraints).toHaveLength(1);
+  });
+
+  it('interprets a typed command and renames a taken ID', async () => {
+    setSceneProvider('mock');
+    const response = await interpretTextCommand('add a ball', EARTH, SCENE);
+
+    expect(response.newBodies?.map(b => b.id)).toEqual(['ball_2']);
+    expect(response.newBodies?.[0].type).toBe('circle');
+  });
+
+  it('clamps what any provider asks for', async () => {
+    setSceneProvider({
+      name: 'stub',
+      analyzeSketch: async () => ({ bodies: [], constraints: [] }),
+      interpretCommand: async () => ({ physicsUpdates: { gravity: { x: 0, y: 500 } } }),
+    });
+    const response = await interpretTextCommand('crank up gravity', EARTH, SCENE);
+
+    expect(response.physicsUpdates?.gravity?.y).toBe(50);
+    expect(response.warnings?.length).toBeGreaterThan(0);
+  });
+
+  it('rejects an empty command before reaching the provider', async () => {
+    setSceneProvider('mock');
+    await expect(interpretTextCommand('   ', EARTH, SCENE)).rejects.toThrow('Type a command first.');
+  });
+});
+
+describe('SCENE_PROVIDER', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('picks the provider named in the environment', async () => {
+    vi.stubEnv('SCENE_PROVIDER', 'mock');
+    vi.resetModules();
+    const fresh = await import('./sceneProvider');
+    expect(fresh.getSceneProvider().name).toBe('mock');
+  });
+
+  it('falls back to Gemini for an unknown name', async () => {
+    vi.stubEnv('SCENE_PROVIDER', 'nonsense');
+    vi.resetModules();
+    const fresh = await import('./sceneProvider');
+    expect(fresh.getSceneProvider().name).toBe('gemini');
+  });
+});
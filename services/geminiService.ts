@@ -1,138 +1,107 @@
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { SceneConfig, PhysicsState, VoiceCommandResponse, BodyDef, ConstraintDef } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// Use Flash for vision speed
-const VISION_MODEL = "gemini-2.5-flash"; 
-// Use Flash for voice speed
-const VOICE_MODEL = "gemini-2.5-flash";
-
-// Increased timeout to 60s for slower connections/larger audio
-const timeoutPromise = (ms: number) => new Promise<never>((_, reject) => 
-  setTimeout(() => reject(new Error(`Request timed out after ${ms/1000}s`)), ms)
-);
-
-// Helper to clean JSON string if model adds markdown blocks or conversational text
-const cleanJson = (text: string): string => {
-  // First strip markdown code blocks
-  let cleaned = text.replace(/```json/g, '').replace(/```/g, '');
-  
-  // Find the first '{' and last '}' to extract the JSON object
-  const start = cleaned.indexOf('{');
-  const end = cleaned.lastIndexOf('}');
-  
-  if (start !== -1 && end !== -1) {
-    return cleaned.substring(start, end + 1);
+import { BodyDef, SceneConfig, PhysicsState, VoiceCommandResponse, ValidationWarning, ConversationTurn } from "../types";
+import { getSceneProvider, CommandRequest } from "./sceneProvider";
+import { localProvider } from "./localProvider";
+import { ImageSize, letterbox, mapScene } from "./frameTransform";
+import { validateCommandResponse, validateScene } from "./sceneValidator";
+import { selectConversationTurns } from "./conversationContext";
+
+export interface SketchAnalysis {
+  sceneConfig: SceneConfig;
+  warnings: ValidationWarning[];
+}
+
+// Asks the provider (or, offline, the in-browser recognizer) for the raw scene in image px.
+// If the provider fails, the recognizer is tried before giving up, with a warning so the user knows.
+const readSketch = async (
+  base64Image: string,
+  size: ImageSize,
+  offline: boolean,
+  existing?: SceneConfig
+): Promise<{ parsed: any; warnings: ValidationWarning[] }> => {
+  const provider = getSceneProvider();
+  try {
+    return { parsed: await (offline ? localProvider : provider).analyzeSketch(base64Image, size, existing), warnings: [] };
+  } catch (error) {
+    if (offline || provider === localProvider) {
+      console.error("Offline Recognition Error:", error);
+      throw error;
+    }
+    console.error("Gemini Analysis Error:", error);
+    let parsed: any;
+    try {
+      parsed = await localProvider.analyzeSketch(base64Image, size, existing);
+    } catch {
+      throw error;
+    }
+    return {
+      parsed,
+      warnings: [{ path: "scene", message: "Gemini was unavailable, so the offline recognizer read this sketch. Shapes may be rougher." }],
+    };
   }
-  
-  return cleaned.trim();
 };
 
-const sanitizeNumber = (val: any, min: number, max: number, fallback: number | undefined): number => {
-  const n = parseFloat(val);
-  if (isNaN(n) || !isFinite(n)) return fallback !== undefined ? fallback : min;
-  return Math.min(Math.max(n, min), max);
+// size is the pixel size of the image sent; the scene comes back fit inside the world.
+// offline skips the provider and runs the in-browser recognizer.
+export const analyzeSketch = async (base64Image: string, size: ImageSize, options: { offline?: boolean } = {}): Promise<SketchAnalysis> => {
+  const { parsed, warnings: fallbackWarnings } = await readSketch(base64Image, size, !!options.offline);
+  const { sceneConfig, warnings } = validateScene(parsed);
+  if (warnings.length > 0) console.warn("Sketch analysis repaired:", warnings);
+  return { sceneConfig: mapScene(sceneConfig, letterbox(size)), warnings: [...fallbackWarnings, ...warnings] };
 };
 
-export const analyzeSketch = async (base64Image: string): Promise<SceneConfig> => {
-  const prompt = `
-    Analyze this physics sketch (canvas 800x600).
-    Identify physics bodies.
-    
-    CRITICAL INTERPRETATION RULES:
-    1. SOLID SHAPES vs LINES: 
-       - If you see a SQUARE, RECTANGLE, or CIRCLE drawn as an outline, interpret it as a SINGLE SOLID BODY. 
-       - DO NOT break a square into 4 separate line segments.
-       - DO NOT break a circle into arcs.
-    
-    2. CLASSIFICATION:
-       - Square/Box/Block -> DYNAMIC RECTANGLE (isStatic: false).
-       - Circle/Ball -> DYNAMIC CIRCLE (isStatic: false).
-       - Long single line / Horizon -> STATIC WALL/FLOOR (isStatic: true).
-       - "U" shape or "Bucket" -> 3 Static Walls.
-    
-    3. PENDULUMS: If a shape is hanging from a line, create a constraint.
-    
-    4. COORDINATES: Normalize to 800x600. (0,0 is top-left).
-    
-    Return JSON.
-  `;
-
-  try {
-    const response = await Promise.race([
-      ai.models.generateContent({
-        model: VISION_MODEL,
-        contents: {
-          parts: [
-            { inlineData: { mimeType: "image/jpeg", data: base64Image } },
-            { text: prompt },
-          ],
-        },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              bodies: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    id: { type: Type.STRING },
-                    type: { type: Type.STRING, enum: ["circle", "rectangle"] },
-                    x: { type: Type.NUMBER },
-                    y: { type: Type.NUMBER },
-                    width: { type: Type.NUMBER },
-                    height: { type: Type.NUMBER },
-                    radius: { type: Type.NUMBER },
-                    angle: { type: Type.NUMBER },
-                    isStatic: { type: Type.BOOLEAN },
-                    color: { type: Type.STRING },
-                    friction: { type: Type.NUMBER },
-                  },
-                  required: ["id", "type", "x", "y", "isStatic"],
-                },
-              },
-              constraints: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    bodyAId: { type: Type.STRING },
-                    pointB: {
-                      type: Type.OBJECT,
-                      properties: {
-                        x: { type: Type.NUMBER },
-                        y: { type: Type.NUMBER },
-                      },
-                      required: ["x", "y"],
-                    },
-                  },
-                  required: ["bodyAId", "pointB"],
-                },
-              },
-            },
-            required: ["bodies"],
-          },
-        },
-      }),
-      timeoutPromise(30000)
-    ]) as GenerateContentResponse;
+// Rough size of a body in px: its radius, half its longer side or its farthest vertex
+const bodyReach = (b: BodyDef): number => {
+  if (b.radius !== undefined) return b.radius;
+  if (b.width !== undefined || b.height !== undefined) return Math.max(b.width || 0, b.height || 0) / 2;
+  return Math.max(0, ...(b.vertices || []).map(v => Math.hypot(v.x, v.y)));
+};
 
-    if (response.text) {
-      const parsed = JSON.parse(cleanJson(response.text));
-      // Ensure arrays are initialized
-      return {
-        bodies: parsed.bodies || [],
-        constraints: parsed.constraints || []
-      } as SceneConfig;
-    }
-    throw new Error("No data returned from Gemini");
-  } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw error;
+// A detection is a body already in the scene when it sits where that body was built and is about as big
+const findExisting = (detected: BodyDef, scene: SceneConfig): BodyDef | undefined =>
+  scene.bodies.find(b => {
+    const ratio = (bodyReach(detected) + 1) / (bodyReach(b) + 1);
+    const near = Math.hypot(b.x - detected.x, b.y - detected.y) < Math.max(bodyReach(b), bodyReach(detected), 10) / 2;
+    return near && ratio > 0.6 && ratio < 1 / 0.6;
+  });
+
+// Add-from-sketch: reads a new photo of a page the current scene was built from and returns only
+// what was drawn since, as a command response so it merges (and undoes) like "add a ramp".
+// New joints may hang new bodies from existing ones. Throws if nothing new was found.
+export const analyzeSketchAdditions = async (
+  base64Image: string,
+  size: ImageSize,
+  currentScene: SceneConfig,
+  options: { offline?: boolean } = {}
+): Promise<VoiceCommandResponse> => {
+  const transform = letterbox(size);
+  const { parsed, warnings: fallbackWarnings } = await readSketch(base64Image, size, !!options.offline, mapScene(currentScene, transform, true));
+  const detected = mapScene(validateScene(parsed).sceneConfig, transform);
+
+  // Detected ID -> existing ID, for bodies that were already there
+  const existingIds: Record<string, string> = {};
+  const newBodies = detected.bodies.filter(b => {
+    const match = findExisting(b, currentScene);
+    if (match) existingIds[b.id] = match.id;
+    return !match;
+  });
+  const raw = { newBodies, newConstraints: detected.constraints };
+  remapNewIds(raw, currentScene, existingIds);
+  // Joints already in the scene were detected again too
+  raw.newConstraints = raw.newConstraints.filter(c => !currentScene.constraints.some(old =>
+    (old.bodyAId === c.bodyAId && old.bodyBId === c.bodyBId) || (old.bodyAId === c.bodyBId && old.bodyBId === c.bodyAId)
+  ));
+
+  const { response, warnings } = validateCommandResponse(raw, currentScene);
+  const added = response.newBodies?.length || 0;
+  const joined = response.newConstraints?.length || 0;
+  if (added === 0 && joined === 0) throw new Error("Nothing new found in the sketch.");
+  response.summary = `Added ${added} ${added === 1 ? 'body' : 'bodies'}${joined > 0 ? ` and ${joined} ${joined === 1 ? 'joint' : 'joints'}` : ''} from the sketch.`;
+  const allWarnings = [...fallbackWarnings, ...warnings];
+  if (allWarnings.length > 0) {
+    console.warn("Sketch additions repaired:", allWarnings);
+    response.warnings = allWarnings;
   }
+  return response;
 };
 
 export const interpretVoiceCommand = async (
@@ -140,235 +109,77 @@ export const interpretVoiceCommand = async (
   currentPhysics: PhysicsState,
   currentScene: SceneConfig | null,
   mimeType: string = "audio/wav",
-  transcriptHint: string = ""
+  transcriptHint: string = "",
+  conversation: ConversationTurn[] = []
 ): Promise<VoiceCommandResponse> => {
   
   if (!audioBase64 || audioBase64.length < 100) {
     throw new Error("Audio recording was too short or empty.");
   }
 
-  // Construct a detailed context string including DIMENSIONS and FRICTION
-  const bodyContext = currentScene?.bodies.map(b => {
-    const dim = b.type === 'circle' ? `r:${Math.round(b.radius || 0)}` : `w:${Math.round(b.width || 0)} h:${Math.round(b.height || 0)}`;
-    const fric = b.friction !== undefined ? ` friction:${b.friction}` : '';
-    return `- ${b.type} (ID: "${b.id}") at [${Math.round(b.x)}, ${Math.round(b.y)}] size[${dim}]${fric}`;
-  }).join('\n') || "No bodies in scene.";
-
-  const prompt = `
-    You are an omnipotent physics engine assistant. 
-    Canvas Size: 800x600. Center: 400, 300.
-    
-    ********************************************************
-    CONTEXT:
-    TRANSCRIPT: "${transcriptHint}"
-    EXISTING BODIES:
-    ${bodyContext}
-    ********************************************************
+  return interpretCommand({ audioBase64, mimeType, transcript: transcriptHint, currentPhysics, currentScene, conversation });
+};
 
-    INSTRUCTIONS:
-    1. INTELLIGENT TYPO CORRECTION:
-       - The transcript may have phonetic errors. INTERPRET INTENT based on physics context.
-       - "Fiction" -> "Friction".
-       - "Pendelum" / "Pandulum" -> "Pendulum".
-       - "Wait" -> "Weight" (implies size/mass).
-       - "Mask" -> "Mass".
-    
-    2. CREATION RULES (ADD):
-       - "Platform" / "Ground" / "Floor" -> Create STATIC rectangle.
-       - "Wall" -> Create STATIC vertical rectangle.
-       - When adding a new body, APPLY ALL ADJECTIVES IMMEDIATELY to 'newBodies'.
-       - "Add a slippery box" -> Create box in 'newBodies' with friction: 0.001.
-       - "Add a red ball" -> Create ball in 'newBodies' with color: "#ff0000".
-       - "Add a heavy block" -> Create larger rectangle.
-    
-    3. PROPERTIES & MODIFIERS:
-       - FRICTION (0.0 to 1.0): 
-          * "Ice", "Slippery", "No friction" -> friction: 0.001
-          * "Normal" -> friction: 0.1
-          * "Sticky", "Rough", "High friction", "With friction" -> friction: 0.9
-       - POSITION:
-          * If position is not specified for a new object, place it near the center (x:400, y:200) so it drops.
-          * "Floor" / "Ground" -> y: 580, width: 800, height: 40.
+// Typed alternative to voice for classrooms without microphones
+export const interpretTextCommand = async (
+  text: string,
+  currentPhysics: PhysicsState,
+  currentScene: SceneConfig | null,
+  conversation: ConversationTurn[] = []
+): Promise<VoiceCommandResponse> => {
 
-    4. GRAVITY & PHYSICS (CRITICAL: Units are m/s²):
-       - DEFAULT EARTH GRAVITY is 9.81.
-       - "Moon" gravity -> y: 1.62.
-       - "Mars" gravity -> y: 3.71.
-       - "Jupiter" or "High" gravity -> y: 24.79.
-       - "Zero" / "No" gravity -> y: 0.
-       - "Invert" / "Reverse" gravity -> y: -9.81.
-       - TIME SCALE: Default is 1. DO NOT change 'timeScale' unless the user explicitly asks for "Slow motion" (0.5) or "Fast forward" (2.0).
+  if (!text.trim()) {
+    throw new Error("Type a command first.");
+  }
 
-    5. COMPLEX OBJECTS:
-       - "Pendulum" -> 
-         * Create Body A: Static small circle (Pivot).
-         * Create Body B: Dynamic circle (Bob).
-         * Create Constraint: Connect A and B.
-       - "Ramp" -> Static rectangle with angle (e.g., 0.5 radians).
+  return interpretCommand({ transcript: text.trim(), currentPhysics, currentScene, conversation });
+};
 
-    6. ACTIONS:
-       - MODIFY: If the user says "Make the box slippery", find the 'box' in EXISTING BODIES and return it in 'updatedBodies' with new friction.
-       - ADD: Return in 'newBodies'.
-       - REMOVE: Return ID in 'removeBodyIds'.
+// Renames model-chosen IDs of new bodies that are already taken (and the constraints that use
+// them) so "ball" never collides with a ball added by an earlier command: ball -> ball_2, ball_3...
+// References listed in existing name bodies already in the scene and resolve to those instead.
+const remapNewIds = (raw: any, currentScene: SceneConfig | null, existing: Record<string, string> = {}) => {
+  if (!raw || typeof raw !== 'object') return;
+  const taken = new Set((currentScene?.bodies || []).map(b => b.id));
+  const idMap: Record<string, string> = {};
+
+  if (Array.isArray(raw.newBodies)) {
+    raw.newBodies.forEach((b: any) => {
+      if (!b || b.id === undefined || b.id === null || b.id === '') return;
+      const oldId = String(b.id);
+      let newId = oldId;
+      for (let n = 2; taken.has(newId); n++) newId = `${oldId}_${n}`;
+      b.id = newId;
+      taken.add(newId);
+      // A joint naming an ID repeated in the response attaches to its first copy, as in the validator
+      if (!(oldId in idMap)) idMap[oldId] = newId;
+    });
+  }
 
-    Return JSON only. No markdown. No explanations.
-  `;
+  const resolve = (id: string) => existing[id] || idMap[id] || id;
+  if (Array.isArray(raw.newConstraints)) {
+    raw.newConstraints.forEach((c: any) => {
+      if (!c) return;
+      if (c.bodyAId) c.bodyAId = resolve(c.bodyAId);
+      if (c.bodyBId) c.bodyBId = resolve(c.bodyBId);
+    });
+  }
+};
 
+// Shared by voice and text: ask the provider, then remap IDs and validate
+const interpretCommand = async (request: CommandRequest): Promise<VoiceCommandResponse> => {
   try {
-    const response = await Promise.race([
-      ai.models.generateContent({
-        model: VOICE_MODEL,
-        contents: {
-          parts: [
-            { inlineData: { mimeType: mimeType, data: audioBase64 } },
-            { text: prompt },
-          ],
-        },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              summary: { type: Type.STRING },
-              physicsUpdates: {
-                type: Type.OBJECT,
-                properties: {
-                  gravity: {
-                    type: Type.OBJECT,
-                    properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
-                  },
-                  timeScale: { type: Type.NUMBER },
-                  enableCollisionEffects: { type: Type.BOOLEAN },
-                },
-              },
-              newBodies: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    id: { type: Type.STRING },
-                    type: { type: Type.STRING },
-                    x: { type: Type.NUMBER },
-                    y: { type: Type.NUMBER },
-                    width: { type: Type.NUMBER },
-                    height: { type: Type.NUMBER },
-                    radius: { type: Type.NUMBER },
-                    angle: { type: Type.NUMBER },
-                    isStatic: { type: Type.BOOLEAN },
-                    color: { type: Type.STRING },
-                    friction: { type: Type.NUMBER },
-                  },
-                  required: ["id", "type", "x", "y", "isStatic"],
-                },
-              },
-              updatedBodies: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    id: { type: Type.STRING },
-                    type: { type: Type.STRING },
-                    x: { type: Type.NUMBER },
-                    y: { type: Type.NUMBER },
-                    width: { type: Type.NUMBER },
-                    height: { type: Type.NUMBER },
-                    radius: { type: Type.NUMBER },
-                    angle: { type: Type.NUMBER },
-                    isStatic: { type: Type.BOOLEAN },
-                    color: { type: Type.STRING },
-                    friction: { type: Type.NUMBER },
-                  },
-                  required: ["id"],
-                },
-              },
-              newConstraints: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    bodyAId: { type: Type.STRING },
-                    bodyBId: { type: Type.STRING },
-                    pointB: {
-                      type: Type.OBJECT,
-                      properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
-                    },
-                    length: { type: Type.NUMBER },
-                    stiffness: { type: Type.NUMBER },
-                  },
-                  required: ["bodyAId"],
-                },
-              },
-              removeBodyIds: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING },
-              }
-            },
-            required: ["summary"]
-          },
-        },
-      }),
-      // Increased timeout to 30s to prevent early termination
-      timeoutPromise(30000)
-    ]) as GenerateContentResponse;
-
-    if (response.text) {
-      let result: VoiceCommandResponse;
-      try {
-        result = JSON.parse(cleanJson(response.text)) as VoiceCommandResponse;
-      } catch (parseError) {
-        console.error("JSON Parse Error:", parseError, "Raw Text:", response.text);
-        throw new Error("I heard you, but I couldn't process the command (Invalid Response).");
-      }
-      
-      const timestamp = Date.now().toString().slice(-4);
-      const idMap: Record<string, string> = {};
-
-      // Sanitize New Bodies
-      if (result.newBodies) {
-        result.newBodies.forEach(b => {
-          const oldId = b.id;
-          const newId = `${b.id}_${timestamp}`;
-          b.id = newId;
-          idMap[oldId] = newId;
-          
-          // Strict number sanitization
-          b.friction = sanitizeNumber(b.friction, 0, 1, 0.1);
-          b.x = sanitizeNumber(b.x, -2000, 2000, 400);
-          b.y = sanitizeNumber(b.y, -2000, 2000, 300);
-          if (b.type === 'circle') b.radius = sanitizeNumber(b.radius, 1, 400, 20);
-          if (b.type === 'rectangle') {
-            b.width = sanitizeNumber(b.width, 1, 2000, 100);
-            b.height = sanitizeNumber(b.height, 1, 2000, 20);
-          }
-        });
-      }
-
-      // Sanitize Updated Bodies
-      if (result.updatedBodies) {
-        result.updatedBodies.forEach(b => {
-          if (b.friction !== undefined) b.friction = sanitizeNumber(b.friction, 0, 1, 0.1);
-          if (b.x !== undefined) b.x = sanitizeNumber(b.x, -2000, 2000, b.x);
-          if (b.y !== undefined) b.y = sanitizeNumber(b.y, -2000, 2000, b.y);
-          if (b.radius !== undefined) b.radius = sanitizeNumber(b.radius, 1, 400, b.radius);
-          if (b.width !== undefined) b.width = sanitizeNumber(b.width, 1, 2000, b.width);
-          if (b.height !== undefined) b.height = sanitizeNumber(b.height, 1, 2000, b.height);
-        });
-      }
-
-      // Sanitize Constraints
-      if (result.newConstraints) {
-        result.newConstraints.forEach(c => {
-          if (idMap[c.bodyAId]) c.bodyAId = idMap[c.bodyAId];
-          if (c.bodyBId && idMap[c.bodyBId]) c.bodyBId = idMap[c.bodyBId];
-          
-          if (c.stiffness !== undefined) c.stiffness = sanitizeNumber(c.stiffness, 0.001, 1, 0.1);
-          if (c.length !== undefined) c.length = sanitizeNumber(c.length, 1, 1000, undefined);
-        });
-      }
-
-      return result;
+    const raw = await getSceneProvider().interpretCommand({
+      ...request,
+      conversation: selectConversationTurns(request.conversation || []),
+    });
+    remapNewIds(raw, request.currentScene);
+    const { response, warnings } = validateCommandResponse(raw, request.currentScene);
+    if (warnings.length > 0) {
+      console.warn("Command response repaired:", warnings);
+      response.warnings = warnings;
     }
-    throw new Error("I couldn't understand what you mean.");
+    return response;
   } catch (error: any) {
     console.error("Gemini Voice Error:", error);
     // Return friendly errors for common issues
@@ -382,4 +193,4 @@ export const interpretVoiceCommand = async (
     // For any other error (including blocked content), use the friendly message
     throw new Error("I couldn't understand what you mean.");
   }
-};
\ No newline at end of file
+};
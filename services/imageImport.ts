@@ -0,0 +1,57 @@
+// Still images (a scanned worksheet, a screenshot, an earlier photo) as an alternative to
+// the live camera frame
+
+// Part of an image, as fractions of its width and height
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+// The camera's "Align sketch here" box, as fractions of the 4:3 viewport. It is 4:3 itself,
+// so what is inside it fills the 800x600 world exactly. Imported images start with the same crop.
+export const SKETCH_GUIDE: CropRect = { x: 0.1, y: 0.1, width: 0.8, height: 0.8 };
+
+// Smallest crop side, so a stray click can't shrink the crop to nothing
+export const MIN_CROP = 0.05;
+
+// The file picker, a drop and a paste can all hand over non-images; take the first image
+export const findImageFile = (items: DataTransferItemList | FileList | null | undefined): File | null => {
+  if (!items) return null;
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const file = item instanceof File ? item : item.kind === 'file' ? item.getAsFile() : null;
+    if (file && file.type.startsWith('image/')) return file;
+  }
+  return null;
+};
+
+export const loadImageFile = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("That file is not an image this browser can open."));
+    };
+    image.src = url;
+  });
+
+// Keeps a crop inside the image and at least MIN_CROP on each side
+export const clampCrop = (crop: CropRect): CropRect => {
+  const width = Math.min(1, Math.max(MIN_CROP, crop.width));
+  const height = Math.min(1, Math.max(MIN_CROP, crop.height));
+  return {
+    x: Math.min(1 - width, Math.max(0, crop.x)),
+    y: Math.min(1 - height, Math.max(0, crop.y)),
+    width,
+    height,
+  };
+};
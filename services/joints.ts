@@ -0,0 +1,211 @@
+import Matter from 'matter-js';
+import { ConstraintDef, Point } from '../types';
+
+// Matter only has distance constraints. Springs, pins and motors map onto them;
+// ropes and sliders are a passive Matter.Constraint plus per-tick corrections in stepJoints.
+
+const STYLES = {
+  link: { strokeStyle: '#a78bfa', lineWidth: 3 },
+  spring: { strokeStyle: '#a3e635', lineWidth: 2 },
+  rope: { strokeStyle: '#d6a96b', lineWidth: 2 },
+  revolute: { strokeStyle: '#f472b6', lineWidth: 2 },
+  prismatic: { strokeStyle: '#38bdf8', lineWidth: 2 },
+  motor: { strokeStyle: '#fb923c', lineWidth: 2 },
+};
+
+// Matter velocities are per 1000/60 ms base tick
+const BASE_TICKS_PER_SECOND = 60;
+// Half-length of a slider rail drawn when the joint has no travel limit
+const DEFAULT_RAIL_HALF_LENGTH = 200;
+
+interface JointState {
+  def: ConstraintDef;
+  axis: Point;
+  angle: number; // slider bodies keep the angle they were created with
+}
+
+const jointOf = (constraint: Matter.Constraint): JointState | undefined => constraint.plugin?.joint;
+
+const normalizeAxis = (axis?: Point): Point => {
+  const length = axis ? Math.hypot(axis.x, axis.y) : 0;
+  return axis && length > 1e-6 ? { x: axis.x / length, y: axis.y / length } : { x: 1, y: 0 };
+};
+
+const anchorB = (constraint: Matter.Constraint): Point => Matter.Constraint.pointBWorld(constraint);
+
+export const createJoint = (cDef: ConstraintDef, bodiesMap: Map<string, Matter.Body>): Matter.Constraint | null => {
+  const bodyA = bodiesMap.get(cDef.bodyAId);
+  const bodyB = cDef.bodyBId ? bodiesMap.get(cDef.bodyBId) : undefined;
+  if (!bodyA) return null;
+
+  const type = cDef.type;
+  const options: any = {
+    bodyA,
+    // Copies: Matter rotates these in place as the bodies turn
+    pointA: cDef.pointA && { ...cDef.pointA },
+    pointB: cDef.pointB && { ...cDef.pointB },
+    length: cDef.length,
+    render: { ...STYLES[type || 'link'], anchors: true },
+  };
+  if (bodyB) options.bodyB = bodyB;
+
+  switch (type) {
+    case 'spring':
+      options.stiffness = cDef.stiffness ?? 0.05;
+      options.damping = cDef.damping ?? 0.05;
+      options.render.type = 'spring';
+      break;
+    case 'revolute':
+    case 'motor':
+      // Pinned to its own center unless told otherwise
+      if (!bodyB && !cDef.pointB) options.pointB = { ...bodyA.position };
+      options.length = 0;
+      options.stiffness = cDef.stiffness ?? 0.9;
+      options.render.type = 'pin';
+      options.render.anchors = false;
+      break;
+    case 'rope':
+    case 'prismatic':
+      if (!bodyB && !cDef.pointB) options.pointB = { ...bodyA.position };
+      options.stiffness = 1;
+      options.render.visible = false;
+      break;
+    default:
+      if (!bodyB && !cDef.pointB) options.pointB = { x: 0, y: 0 };
+      options.stiffness = cDef.stiffness || 0.1;
+  }
+
+  const constraint = Matter.Constraint.create(options);
+  if (type === 'rope' || type === 'prismatic') {
+    // Passive until stepJoints decides otherwise (Constraint.create treats 0 as "use default")
+    constraint.stiffness = 0;
+    if (type === 'prismatic') constraint.length = 0;
+  }
+  if (type) {
+    constraint.plugin.joint = { def: cDef, axis: normalizeAxis(cDef.axis), angle: bodyA.angle } as JointState;
+  }
+  return constraint;
+};
+
+// Called before every engine tick: tighten or slacken ropes, drive motors
+export const stepJoints = (constraints: Iterable<Matter.Constraint>) => {
+  for (const constraint of constraints) {
+    const joint = jointOf(constraint);
+    if (!joint) continue;
+    const bodyA = constraint.bodyA as Matter.Body;
+
+    if (joint.def.type === 'rope') {
+      // Only pulls once stretched to full length
+      const taut = Matter.Constraint.currentLength(constraint) >= constraint.length;
+      constraint.stiffness = taut ? (joint.def.stiffness ?? 1) : 0;
+    } else if (joint.def.type === 'motor' && !bodyA.isStatic) {
+      Matter.Body.setAngularVelocity(bodyA, (joint.def.motorSpeed ?? 3) / BASE_TICKS_PER_SECOND);
+    }
+  }
+};
+
+// Called after every engine tick, so sliders end each frame exactly on their rail
+export const settleJoints = (constraints: Iterable<Matter.Constraint>) => {
+  for (const constraint of constraints) {
+    const joint = jointOf(constraint);
+    const bodyA = constraint.bodyA as Matter.Body;
+    if (joint?.def.type === 'prismatic' && !bodyA.isStatic) {
+      // Project the body back onto the rail and keep only the velocity along it
+      const anchor = anchorB(constraint);
+      const { axis } = joint;
+      let t = (bodyA.position.x - anchor.x) * axis.x + (bodyA.position.y - anchor.y) * axis.y;
+      // getVelocity reads in the per-base-tick units setVelocity writes, whatever the substep length
+      const velocity = Matter.Body.getVelocity(bodyA);
+      let along = velocity.x * axis.x + velocity.y * axis.y;
+      if (joint.def.length !== undefined) {
+        const half = joint.def.length / 2;
+        // Hitting an end stop kills the motion into it
+        if (Math.abs(t) >= half && along * t > 0) along = 0;
+        t = Math.max(-half, Math.min(half, t));
+      }
+      Matter.Body.setPosition(bodyA, { x: anchor.x + axis.x * t, y: anchor.y + axis.y * t });
+      Matter.Body.setVelocity(bodyA, { x: axis.x * along, y: axis.y * along });
+      Matter.Body.setAngle(bodyA, joint.angle);
+      Matter.Body.setAngularVelocity(bodyA, 0);
+    }
+  }
+};
+
+// Draws what Matter's renderer can't: sagging ropes, slider rails, hinge rings and motor arrows.
+// Expects the view transform to already be applied.
+export const drawJoints = (ctx: CanvasRenderingContext2D, constraints: Iterable<Matter.Constraint>) => {
+  for (const constraint of constraints) {
+    const joint = jointOf(constraint);
+    if (!joint) continue;
+    const bodyA = constraint.bodyA as Matter.Body;
+    const a = Matter.Constraint.pointAWorld(constraint);
+    const b = anchorB(constraint);
+    const style = STYLES[joint.def.type!];
+    ctx.strokeStyle = style.strokeStyle;
+    ctx.fillStyle = style.strokeStyle;
+    ctx.lineWidth = style.lineWidth;
+
+    switch (joint.def.type) {
+      case 'rope': {
+        // Slack rope hangs as a curve whose sag uses up the spare length
+        const distance = Math.hypot(a.x - b.x, a.y - b.y);
+        const sag = distance < constraint.length ? Math.sqrt(constraint.length ** 2 - distance ** 2) / 2 : 0;
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.quadraticCurveTo((a.x + b.x) / 2, (a.y + b.y) / 2 + sag, b.x, b.y);
+        ctx.stroke();
+        [a, b].forEach(p => {
+          ctx.beginPath();
+          ctx.arc(p.x, p.y, 3, 0, 2 * Math.PI);
+          ctx.fill();
+        });
+        break;
+      }
+      case 'prismatic': {
+        const { axis } = joint;
+        const half = joint.def.length !== undefined ? joint.def.length / 2 : DEFAULT_RAIL_HALF_LENGTH;
+        const start = { x: b.x - axis.x * half, y: b.y - axis.y * half };
+        const end = { x: b.x + axis.x * half, y: b.y + axis.y * half };
+        ctx.setLineDash([8, 4]);
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        ctx.lineTo(end.x, end.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        // End stops
+        [start, end].forEach(p => {
+          ctx.beginPath();
+          ctx.moveTo(p.x - axis.y * 8, p.y + axis.x * 8);
+          ctx.lineTo(p.x + axis.y * 8, p.y - axis.x * 8);
+          ctx.stroke();
+        });
+        ctx.fillRect(bodyA.position.x - 4, bodyA.position.y - 4, 8, 8);
+        break;
+      }
+      case 'revolute':
+        ctx.beginPath();
+        ctx.arc(b.x, b.y, 6, 0, 2 * Math.PI);
+        ctx.stroke();
+        break;
+      case 'motor': {
+        // Arrow arc around the wheel in its driving direction
+        const radius = (bodyA.circleRadius || 20) + 8;
+        const direction = (joint.def.motorSpeed ?? 3) >= 0 ? 1 : -1;
+        const start = bodyA.angle;
+        const end = start + direction * Math.PI * 1.2;
+        ctx.beginPath();
+        ctx.arc(bodyA.position.x, bodyA.position.y, radius, Math.min(start, end), Math.max(start, end));
+        ctx.stroke();
+        const tip = { x: bodyA.position.x + Math.cos(end) * radius, y: bodyA.position.y + Math.sin(end) * radius };
+        const tangent = { x: -Math.sin(end) * direction, y: Math.cos(end) * direction };
+        ctx.beginPath();
+        ctx.moveTo(tip.x + tangent.x * 6, tip.y + tangent.y * 6);
+        ctx.lineTo(tip.x - tangent.y * 5, tip.y + tangent.x * 5);
+        ctx.lineTo(tip.x + tangent.y * 5, tip.y - tangent.x * 5);
+        ctx.closePath();
+        ctx.fill();
+        break;
+      }
+    }
+  }
+};
@@ -0,0 +1,32 @@
+import { SceneProvider } from "./sceneProvider";
+import { mockProvider } from "./mockProvider";
+import { RasterImage, recognizeSketch } from "./sketchRecognizer";
+
+// Fully offline backend: sketches go through the classical-CV recognizer in the browser,
+// commands through the mock's keyword rules.
+
+// Decodes a base64 JPEG (as captured by the camera) into raw pixels
+const decodeImage = (base64Image: string): Promise<RasterImage> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas is not available to read the sketch."));
+        return;
+      }
+      ctx.drawImage(image, 0, 0);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    image.onerror = () => reject(new Error("Could not decode the captured image."));
+    image.src = `data:image/jpeg;base64,${base64Image}`;
+  });
+
+export const localProvider: SceneProvider = {
+  name: "local",
+  analyzeSketch: async (base64Image) => recognizeSketch(await decodeImage(base64Image)),
+  interpretCommand: mockProvider.interpretCommand,
+};
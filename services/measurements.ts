@@ -0,0 +1,203 @@
+import Matter from 'matter-js';
+import { MeasurementOverlays, OverlayFlags, Point } from '../types';
+import { PIXELS_PER_METER } from './units';
+
+// Matter velocities are px per 1000/60 ms of simulated time
+const BASE_TICKS_PER_SECOND = 60;
+
+// Arrow lengths on screen
+const VELOCITY_PX_PER_MPS = PIXELS_PER_METER * 0.25; // where the body will be in 0.25 s
+const ACCELERATION_PX_PER_MPS2 = 10;
+const FORCE_PX_PER_NEWTON = 5;
+const MAX_ARROW_PX = 200;
+
+const COLORS = {
+  velocity: '#22d3ee',
+  acceleration: '#facc15',
+  gravity: '#f472b6',
+  contacts: '#f87171',
+  readouts: '#e5e7eb',
+};
+
+export const NO_OVERLAYS: OverlayFlags = {
+  velocity: false,
+  acceleration: false,
+  gravity: false,
+  contacts: false,
+  readouts: false,
+};
+
+export const DEFAULT_OVERLAYS: MeasurementOverlays = { global: NO_OVERLAYS, bodies: {} };
+
+// A body shows an overlay if it is on globally or for that body
+export const overlaysFor = (overlays: MeasurementOverlays, id: string): OverlayFlags => {
+  const own = overlays.bodies[id] || {};
+  return {
+    velocity: overlays.global.velocity || !!own.velocity,
+    acceleration: overlays.global.acceleration || !!own.acceleration,
+    gravity: overlays.global.gravity || !!own.gravity,
+    contacts: overlays.global.contacts || !!own.contacts,
+    readouts: overlays.global.readouts || !!own.readouts,
+  };
+};
+
+export const hasAnyOverlay = (overlays: MeasurementOverlays): boolean =>
+  Object.values(overlays.global).some(Boolean) ||
+  Object.values(overlays.bodies).some(flags => Object.values(flags).some(Boolean));
+
+// Velocity in m/s of simulated time
+export const velocityOf = (body: Matter.Body): Point => {
+  const v = Matter.Body.getVelocity(body);
+  return { x: v.x * BASE_TICKS_PER_SECOND / PIXELS_PER_METER, y: v.y * BASE_TICKS_PER_SECOND / PIXELS_PER_METER };
+};
+
+export interface ContactForce {
+  bodyIds: string[]; // labels of both parent bodies
+  point: Point;
+  normal: Point; // unit vector, pushing bodyIds[0] away from bodyIds[1]
+  newtons: number;
+}
+
+// Tracks acceleration between ticks and the normal force at each resting contact.
+// Call update() after every engine tick (not every substep) and reset() whenever time jumps (seek, rebuild).
+export const createMeasurementTracker = () => {
+  let lastVelocities = new Map<string, Point>();
+  let accelerations = new Map<string, Point>();
+  let contacts: ContactForce[] = [];
+
+  const update = (engine: Matter.Engine, bodies: Map<string, Matter.Body>, tickMs: number) => {
+    const dt = (tickMs * engine.timing.timeScale) / 1000;
+    const nextVelocities = new Map<string, Point>();
+    const nextAccelerations = new Map<string, Point>();
+    bodies.forEach((body, id) => {
+      const v = velocityOf(body);
+      nextVelocities.set(id, v);
+      const prev = lastVelocities.get(id);
+      if (prev && dt > 0) nextAccelerations.set(id, { x: (v.x - prev.x) / dt, y: (v.y - prev.y) / dt });
+    });
+    lastVelocities = nextVelocities;
+    accelerations = nextAccelerations;
+
+    // Resting contacts accumulate their impulse per engine update; impulse / update time is the force.
+    // Impulses are in kg·px per actual update (a substep, timeScale applied), so divide by its length squared.
+    const updateSeconds = Math.max(engine.timing.lastDelta, 1e-6) / 1000;
+    const impulseToNewtons = 1 / (PIXELS_PER_METER * updateSeconds ** 2);
+    contacts = [];
+    engine.pairs.list.forEach((pair: any) => {
+      if (!pair.isActive || pair.isSensor) return;
+      const { collision } = pair;
+      for (let i = 0; i < pair.contactCount; i++) {
+        const contact = pair.contacts[i];
+        const newtons = Math.abs(contact.normalImpulse) * impulseToNewtons;
+        if (!contact.vertex || newtons < 1e-3) continue;
+        contacts.push({
+          bodyIds: [collision.parentA.label, collision.parentB.label],
+          point: { x: contact.vertex.x, y: contact.vertex.y },
+          normal: { x: collision.normal.x, y: collision.normal.y },
+          newtons,
+        });
+      }
+    });
+  };
+
+  const reset = () => {
+    lastVelocities = new Map();
+    accelerations = new Map();
+    contacts = [];
+  };
+
+  return {
+    update,
+    reset,
+    accelerationOf: (id: string): Point | undefined => accelerations.get(id),
+    contacts: (): ContactForce[] => contacts,
+  };
+};
+
+export type MeasurementTracker = ReturnType<typeof createMeasurementTracker>;
+
+const drawArrow = (ctx: CanvasRenderingContext2D, from: Point, vector: Point, pxPerUnit: number, color: string) => {
+  let dx = vector.x * pxPerUnit;
+  let dy = vector.y * pxPerUnit;
+  const length = Math.hypot(dx, dy);
+  if (length < 2) return;
+  if (length > MAX_ARROW_PX) {
+    dx *= MAX_ARROW_PX / length;
+    dy *= MAX_ARROW_PX / length;
+  }
+  const to = { x: from.x + dx, y: from.y + dy };
+  const angle = Math.atan2(dy, dx);
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - 8 * Math.cos(angle - 0.4), to.y - 8 * Math.sin(angle - 0.4));
+  ctx.lineTo(to.x - 8 * Math.cos(angle + 0.4), to.y - 8 * Math.sin(angle + 0.4));
+  ctx.closePath();
+  ctx.fill();
+};
+
+const magnitude = (p: Point) => Math.hypot(p.x, p.y);
+
+// Expects the view transform to already be applied. gravity is in m/s².
+export const drawMeasurements = (
+  ctx: CanvasRenderingContext2D,
+  bodies: Map<string, Matter.Body>,
+  overlays: MeasurementOverlays,
+  tracker: MeasurementTracker,
+  gravity: Point
+) => {
+  const contactBodies = new Set<string>();
+
+  bodies.forEach((body, id) => {
+    const flags = overlaysFor(overlays, id);
+    if (flags.contacts) contactBodies.add(id);
+    if (body.isStatic || !Number.isFinite(body.position.x) || !Number.isFinite(body.position.y)) return;
+
+    const velocity = velocityOf(body);
+    const acceleration = tracker.accelerationOf(id);
+    const weight = { x: body.mass * gravity.x, y: body.mass * gravity.y };
+    if (flags.velocity) drawArrow(ctx, body.position, velocity, VELOCITY_PX_PER_MPS, COLORS.velocity);
+    if (flags.acceleration && acceleration) drawArrow(ctx, body.position, acceleration, ACCELERATION_PX_PER_MPS2, COLORS.acceleration);
+    if (flags.gravity) drawArrow(ctx, body.position, weight, FORCE_PX_PER_NEWTON, COLORS.gravity);
+
+    if (flags.readouts) {
+      const lines = [
+        `v ${magnitude(velocity).toFixed(2)} m/s`,
+        acceleration ? `a ${magnitude(acceleration).toFixed(2)} m/s²` : null,
+        `m ${body.mass.toFixed(2)} kg  W ${magnitude(weight).toFixed(1)} N`,
+      ].filter(Boolean) as string[];
+      const top = body.bounds.min.y - 8 - (lines.length - 1) * 13;
+      ctx.font = '11px monospace';
+      ctx.textAlign = 'center';
+      lines.forEach((line, i) => {
+        const y = top + i * 13;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(body.position.x - ctx.measureText(line).width / 2 - 3, y - 10, ctx.measureText(line).width + 6, 13);
+        ctx.fillStyle = COLORS.readouts;
+        ctx.fillText(line, body.position.x, y);
+      });
+      ctx.textAlign = 'start';
+    }
+  });
+
+  // Normal force on each body at its contact points
+  tracker.contacts().forEach(contact => {
+    contact.bodyIds.forEach((id, side) => {
+      if (!contactBodies.has(id) || bodies.get(id)?.isStatic) return;
+      const sign = side === 0 ? 1 : -1;
+      const force = { x: contact.normal.x * contact.newtons * sign, y: contact.normal.y * contact.newtons * sign };
+      drawArrow(ctx, contact.point, force, FORCE_PX_PER_NEWTON, COLORS.contacts);
+      if (overlaysFor(overlays, id).readouts) {
+        ctx.font = '10px monospace';
+        ctx.fillStyle = COLORS.contacts;
+        ctx.fillText(`${contact.newtons.toFixed(1)} N`, contact.point.x + 4, contact.point.y - 4);
+      }
+    });
+  });
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { PhysicsState, SceneConfig } from '../types';
+import { mockProvider } from './mockProvider';
+import { CommandRequest } from './sceneProvider';
+import { letterbox, mapScene } from './frameTransform';
+
+const EARTH: PhysicsState = { gravity: { x: 0, y: 9.81 }, timeScale: 1, enableCollisionEffects: true };
+
+const SCENE: SceneConfig = {
+  bodies: [
+    { id: 'floor', type: 'rectangle', x: 400, y: 580, width: 800, height: 40, isStatic: true },
+    { id: 'ball', type: 'circle', x: 200, y: 100, radius: 20, isStatic: false },
+    { id: 'box', type: 'rectangle', x: 500, y: 100, width: 60, height: 60, isStatic: false },
+  ],
+  constraints: [],
+};
+
+const command = (transcript: string, extra: Partial<CommandRequest> = {}) =>
+  mockProvider.interpretCommand({ transcript, currentPhysics: EARTH, currentScene: SCENE, ...extra });
+
+describe('mockProvider.analyzeSketch', () => {
+  it('returns the same world scene for any image size', async () => {
+    const wide = { width: 1280, height: 720 };
+    const square = { width: 500, height: 500 };
+    const fromWide = mapScene(await mockProvider.analyzeSketch('', wide), letterbox(wide));
+    const fromSquare = mapScene(await mockProvider.analyzeSketch('', square), letterbox(square));
+    const ball = fromWide.bodies.find(b => b.id === 'ball')!;
+    expect(ball.x).toBeCloseTo(160);
+    expect(ball.y).toBeCloseTo(380);
+    expect(ball.radius).toBeCloseTo(25);
+    expect(fromSquare.bodies.map(b => b.id)).toEqual(fromWide.bodies.map(b => b.id));
+    expect(fromWide.constraints).toEqual([{ bodyAId: 'bob', bodyBId: 'pivot', stiffness: 1 }]);
+  });
+});
+
+describe('mockProvider.interpretCommand', () => {
+  it('sets gravity by place name', async () => {
+    expect((await command('moon gravity please')).physicsUpdates).toEqual({ gravity: { x: 0, y: 1.62 } });
+    expect((await command('zero gravity')).physicsUpdates?.gravity?.y).toBe(0);
+  });
+
+  it('changes the time scale', async () => {
+    expect((await command('slow motion')).physicsUpdates).toEqual({ timeScale: 0.5 });
+  });
+
+  it('adds a shape with its adjectives', async () => {
+    const response = await command('add a red bouncy ball');
+    expect(response.newBodies).toEqual([
+      { id: 'ball', type: 'circle', x: 400, y: 200, radius: 25, isStatic: false, color: '#ff0000', restitution: 0.9 },
+    ]);
+  });
+
+  it('sizes new bodies from metric lengths', async () => {
+    const [ramp] = (await command('add a 2 meter ramp')).newBodies!;
+    const xs = ramp.vertices!.map(v => v.x);
+    expect(Math.max(...xs) - Math.min(...xs)).toBeCloseTo(200);
+    const [ball] = (await command('add a 50 cm ball')).newBodies!;
+    expect(ball.radius).toBeCloseTo(25);
+  });
+
+  it('adds a pendulum as two bodies and a link', async () => {
+    const response = await command('add a pendulum');
+    expect(response.newBodies!.map(b => b.id)).toEqual(['pivot', 'bob']);
+    expect(response.newConstraints).toEqual([{ bodyAId: 'bob', bodyBId: 'pivot', stiffness: 1 }]);
+  });
+
+  it('updates the named body', async () => {
+    const response = await command('make the box bigger and heavier');
+    expect(response.updatedBodies).toHaveLength(1);
+    expect(response.updatedBodies![0]).toMatchObject({ id: 'box', width: 90, height: 90, mass: 20 });
+  });
+
+  it('resolves "it" to the body an earlier command touched', async () => {
+    const conversation = [{ transcript: 'add a ball', summary: 'added a ball', touchedIds: ['ball'] }];
+    const response = await command('make it blue', { conversation });
+    expect(response.updatedBodies![0]).toMatchObject({ id: 'ball', color: '#3b82f6' });
+  });
+
+  it('removes bodies', async () => {
+    expect((await command('delete the box')).removeBodyIds).toEqual(['box']);
+  });
+
+  it('asks for a plot', async () => {
+    expect((await command('graph the speed of the ball')).plot).toEqual({ quantity: 'speed', bodyIds: ['ball'] });
+    expect((await command('plot the energy')).plot).toEqual({ quantity: 'energy', bodyIds: [] });
+  });
+
+  it('says when it did not understand', async () => {
+    const response = await command('sing a song');
+    expect(response).toEqual({ summary: 'Offline mode: command not recognized.' });
+  });
+});
@@ -0,0 +1,184 @@
+import { BodyDef, SceneConfig, VoiceCommandResponse } from "../types";
+import { SceneProvider, CommandRequest } from "./sceneProvider";
+import { metersToPixels } from "./units";
+import { letterbox, mapScene } from "./frameTransform";
+
+// Offline stand-in for Gemini. Reads every photo as the same demo scene, placed in the
+// image's pixels so it lands in the same spot of the world whatever the photo size, and
+// interprets commands from the transcript with keyword rules. The same input always gives
+// the same output; geminiService then renames any new ID already taken (ball -> ball_2).
+
+const DEMO_SCENE: SceneConfig = {
+  bodies: [
+    { id: "floor", type: "rectangle", x: 400, y: 580, width: 800, height: 40, isStatic: true },
+    {
+      id: "ramp", type: "polygon", x: 250, y: 500, isStatic: true,
+      vertices: [{ x: -150, y: 50 }, { x: 150, y: 50 }, { x: -150, y: -50 }],
+    },
+    { id: "ball", type: "circle", x: 160, y: 380, radius: 25, isStatic: false },
+    { id: "box", type: "rectangle", x: 600, y: 300, width: 60, height: 60, isStatic: false },
+    { id: "pivot", type: "circle", x: 600, y: 80, radius: 5, isStatic: true },
+    { id: "bob", type: "circle", x: 680, y: 180, radius: 20, isStatic: false },
+  ],
+  constraints: [
+    { bodyAId: "bob", bodyBId: "pivot", stiffness: 1 },
+  ],
+};
+
+const GRAVITY_WORDS: [RegExp, number][] = [
+  [/\b(zero|no)\s+gravity\b/, 0],
+  [/\b(invert|reverse)/, -9.81],
+  [/\bmoon\b/, 1.62],
+  [/\bmars\b/, 3.71],
+  [/\b(jupiter|high gravity)\b/, 24.79],
+  [/\bearth\b/, 9.81],
+];
+
+const COLOR_WORDS: Record<string, string> = {
+  red: "#ff0000",
+  green: "#22c55e",
+  blue: "#3b82f6",
+  yellow: "#facc15",
+  orange: "#f97316",
+  purple: "#a855f7",
+  white: "#ffffff",
+};
+
+// Noun -> body template; position and adjectives are filled in per command
+const SHAPE_WORDS: [RegExp, BodyDef][] = [
+  [/\b(floor|ground|platform)\b/, { id: "floor", type: "rectangle", x: 400, y: 580, width: 800, height: 40, isStatic: true }],
+  [/\bwall\b/, { id: "wall", type: "rectangle", x: 700, y: 400, width: 40, height: 300, isStatic: true }],
+  [/\b(ramp|wedge|triangle)\b/, {
+    id: "ramp", type: "polygon", x: 400, y: 500, isStatic: true,
+    vertices: [{ x: -150, y: 50 }, { x: 150, y: 50 }, { x: 150, y: -50 }],
+  }],
+  [/\b(ball|circle|sphere)\b/, { id: "ball", type: "circle", x: 400, y: 200, radius: 25, isStatic: false }],
+  [/\b(box|block|square|crate)\b/, { id: "box", type: "rectangle", x: 400, y: 200, width: 60, height: 60, isStatic: false }],
+];
+
+// Adjectives shared by "add a red ball" and "make the ball red"
+const readModifiers = (text: string): Partial<BodyDef> => {
+  const mods: Partial<BodyDef> = {};
+  Object.entries(COLOR_WORDS).forEach(([word, hex]) => {
+    if (new RegExp(`\\b${word}\\b`).test(text)) mods.color = hex;
+  });
+  if (/\b(slippery|ice|icy|no friction)\b/.test(text)) mods.friction = 0.001;
+  if (/\b(sticky|rough|high friction)\b/.test(text)) mods.friction = 0.9;
+  if (/\b(bouncy|bouncier|rubber)\b/.test(text)) mods.restitution = 0.9;
+  if (/\b(heavy|heavier)\b/.test(text)) mods.mass = 20;
+  if (/\b(light|lighter)\b/.test(text)) mods.mass = 0.1;
+  const kg = text.match(/(\d+(?:\.\d+)?)\s*(kg|kilo)/);
+  if (kg) mods.mass = parseFloat(kg[1]);
+  return mods;
+};
+
+// "Bigger" / "smaller" scale whichever size fields the body has
+const readResize = (text: string, body: BodyDef): Partial<BodyDef> => {
+  const factor = /\b(bigger|larger)\b/.test(text) ? 1.5 : /\bsmaller\b/.test(text) ? 1 / 1.5 : 1;
+  if (factor === 1) return {};
+  const sized: Partial<BodyDef> = {};
+  if (body.radius !== undefined) sized.radius = body.radius * factor;
+  if (body.width !== undefined) sized.width = body.width * factor;
+  if (body.height !== undefined) sized.height = body.height * factor;
+  if (body.vertices) sized.vertices = body.vertices.map(v => ({ x: v.x * factor, y: v.y * factor }));
+  return sized;
+};
+
+// "A 2 meter ramp", "a 50 cm ball": the length is the body's width (a circle's diameter)
+const readMetricSize = (text: string, body: BodyDef): Partial<BodyDef> => {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*(cm|centimet(?:er|re)s?|m|met(?:er|re)s?)\b(?!\/)/);
+  if (!match) return {};
+  const px = metersToPixels(parseFloat(match[1]) / (match[2].startsWith('c') ? 100 : 1));
+  if (body.type === 'circle') return { radius: px / 2 };
+  if (body.vertices) {
+    const xs = body.vertices.map(v => v.x);
+    const factor = px / (Math.max(...xs) - Math.min(...xs));
+    return { vertices: body.vertices.map(v => ({ x: v.x * factor, y: v.y * factor })) };
+  }
+  // Boxes stay square; floors and walls keep their thickness and take the length along their long side
+  if (body.width === body.height) return { width: px, height: px };
+  return (body.height || 0) > (body.width || 0) ? { height: px } : { width: px };
+};
+
+const findShape = (text: string) => SHAPE_WORDS.find(([pattern]) => pattern.test(text));
+
+// Existing body the command refers to: an ID mentioned verbatim, else the last body of the named shape,
+// else ("make it red") the most recent body an earlier command touched
+const findTarget = (text: string, request: CommandRequest): BodyDef | undefined => {
+  const bodies = request.currentScene?.bodies || [];
+  const byId = bodies.find(b => text.includes(b.id.toLowerCase()));
+  if (byId) return byId;
+  const shape = findShape(text);
+  if (!shape) {
+    if (!/\b(it|its|that|them)\b/.test(text)) return undefined;
+    const recent = [...(request.conversation || [])].reverse().flatMap(turn => [...turn.touchedIds].reverse());
+    return recent.map(id => bodies.find(b => b.id === id)).find(Boolean);
+  }
+  const [, template] = shape;
+  return [...bodies].reverse().find(b => b.type === template.type && b.isStatic === template.isStatic);
+};
+
+const interpretCommand = async (request: CommandRequest): Promise<VoiceCommandResponse> => {
+  const text = request.transcript.toLowerCase().trim();
+  const response: VoiceCommandResponse = {};
+  const actions: string[] = [];
+
+  const gravity = GRAVITY_WORDS.find(([pattern]) => pattern.test(text));
+  if (gravity && /gravity|moon|mars|jupiter|earth/.test(text)) {
+    response.physicsUpdates = { gravity: { x: 0, y: gravity[1] } };
+    actions.push(`set gravity to ${gravity[1]} m/s²`);
+  }
+  if (/slow motion/.test(text)) {
+    response.physicsUpdates = { ...response.physicsUpdates, timeScale: 0.5 };
+    actions.push("slowed time");
+  } else if (/fast forward/.test(text)) {
+    response.physicsUpdates = { ...response.physicsUpdates, timeScale: 2 };
+    actions.push("sped up time");
+  }
+
+  if (/\b(graph|plot|chart)\b/.test(text)) {
+    const quantity = /energy/.test(text) ? 'energy' : /speed|velocity|fast/.test(text) ? 'speed' : 'height';
+    const target = findTarget(text, request);
+    response.plot = { quantity, bodyIds: target ? [target.id] : [] };
+    actions.push(target && quantity !== 'energy' ? `graphing the ${quantity} of ${target.id}` : `graphing the ${quantity}`);
+  } else if (/\b(remove|delete)\b/.test(text)) {
+    const target = findTarget(text, request);
+    if (target) {
+      response.removeBodyIds = [target.id];
+      actions.push(`removed ${target.id}`);
+    }
+  } else if (/\b(add|create|drop|spawn)\b/.test(text)) {
+    const shape = findShape(text);
+    if (/\bpendulum\b/.test(text)) {
+      response.newBodies = [
+        { id: "pivot", type: "circle", x: 400, y: 100, radius: 5, isStatic: true },
+        { id: "bob", type: "circle", x: 500, y: 250, radius: 20, isStatic: false, ...readModifiers(text) },
+      ];
+      response.newConstraints = [{ bodyAId: "bob", bodyBId: "pivot", stiffness: 1 }];
+      actions.push("added a pendulum");
+    } else if (shape) {
+      const [, template] = shape;
+      response.newBodies = [{ ...template, ...readMetricSize(text, template), ...readModifiers(text) }];
+      actions.push(`added a ${template.id}`);
+    }
+  } else if (/\b(make|set|turn)\b/.test(text)) {
+    const target = findTarget(text, request);
+    const mods = target ? { ...readModifiers(text), ...readResize(text, target) } : {};
+    if (target && Object.keys(mods).length > 0) {
+      response.updatedBodies = [{ ...target, ...mods }];
+      actions.push(`updated ${target.id}`);
+    }
+  }
+
+  response.summary = actions.length > 0
+    ? `Offline mode: ${actions.join(", ")}.`
+    : "Offline mode: command not recognized.";
+  return response;
+};
+
+export const mockProvider: SceneProvider = {
+  name: 'mock',
+  // The demo scene as it would sit in this image, so mapping it back lands it where it's defined
+  analyzeSketch: async (_base64Image, size) => mapScene(DEMO_SCENE, letterbox(size), true),
+  interpretCommand,
+};
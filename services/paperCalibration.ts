@@ -0,0 +1,227 @@
+import { Point } from "../types";
+import { RasterImage } from "./sketchRecognizer";
+
+// Perspective correction for photos of a sheet of paper: find the sheet's four corners
+// and warp it back to a flat rectangle, so a page shot at an angle isn't read as a trapezoid.
+
+// The sheet must fill at least this share of the frame to be trusted
+const MIN_PAPER_SHARE = 0.2;
+// Pen lines up to about twice this wide are bridged, so a floor drawn edge to edge doesn't cut the sheet in two
+const INK_BRIDGE_PX = 4;
+
+// Corners in image px: top-left, top-right, bottom-right, bottom-left
+export type PaperCorners = [Point, Point, Point, Point];
+
+const toGray = (image: RasterImage): Uint8Array => {
+  const gray = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2]);
+  }
+  return gray;
+};
+
+// Otsu: the gray level that best splits the histogram into paper and background
+const otsuThreshold = (gray: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, level) => acc + count * level, 0);
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let level = 0; level < 256; level++) {
+    countBelow += histogram[level];
+    if (countBelow === 0) continue;
+    const countAbove = total - countBelow;
+    if (countAbove === 0) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sum - sumBelow) / countAbove;
+    const between = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+// Grows the mask by radius px (square neighbourhood), one axis at a time
+const dilate = (mask: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const rows = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const nx = x + dx;
+        if (nx >= 0 && nx < width && mask[y * width + nx]) {
+          rows[y * width + x] = 1;
+          break;
+        }
+      }
+    }
+  }
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let dy = -radius; dy <= radius; dy++) {
+        const ny = y + dy;
+        if (ny >= 0 && ny < height && rows[ny * width + x]) {
+          out[y * width + x] = 1;
+          break;
+        }
+      }
+    }
+  }
+  return out;
+};
+
+// Largest 4-connected bright region, as pixel indices
+const largestBrightRegion = (bright: Uint8Array, width: number, height: number): number[] => {
+  const seen = new Uint8Array(bright.length);
+  let largest: number[] = [];
+  for (let start = 0; start < bright.length; start++) {
+    if (!bright[start] || seen[start]) continue;
+    const region: number[] = [];
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      region.push(index);
+      const x = index % width;
+      const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+      neighbours.forEach(next => {
+        if (next >= 0 && next < bright.length && bright[next] && !seen[next]) {
+          seen[next] = 1;
+          stack.push(next);
+        }
+      });
+    }
+    if (region.length > largest.length) largest = region;
+  }
+  return largest;
+};
+
+const quadArea = (corners: PaperCorners): number => {
+  let area = 0;
+  corners.forEach((p, i) => {
+    const q = corners[(i + 1) % 4];
+    area += p.x * q.y - q.x * p.y;
+  });
+  return area / 2;
+};
+
+// Finds the sheet as the largest bright region and takes its extreme points along the
+// diagonals as corners. Returns null when no sheet stands out from the background.
+export const findPaperCorners = (image: RasterImage): PaperCorners | null => {
+  const { width, height } = image;
+  const gray = toGray(image);
+  const threshold = otsuThreshold(gray);
+  const bright = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) bright[i] = gray[i] > threshold ? 1 : 0;
+
+  const region = largestBrightRegion(dilate(bright, width, height, INK_BRIDGE_PX), width, height);
+  if (region.length < width * height * MIN_PAPER_SHARE) return null;
+
+  let tl = { x: 0, y: 0 }, tr = tl, br = tl, bl = tl;
+  let minSum = Infinity, maxSum = -Infinity, minDiff = Infinity, maxDiff = -Infinity;
+  region.forEach(index => {
+    const x = index % width;
+    const y = (index - x) / width;
+    const p = { x: x + 0.5, y: y + 0.5 };
+    if (x + y < minSum) { minSum = x + y; tl = p; }
+    if (x + y > maxSum) { maxSum = x + y; br = p; }
+    if (x - y > maxDiff) { maxDiff = x - y; tr = p; }
+    if (x - y < minDiff) { minDiff = x - y; bl = p; }
+  });
+  // Undo the bridging growth so the corners sit on the sheet's real edge
+  const r = INK_BRIDGE_PX;
+  const corners: PaperCorners = [
+    { x: tl.x + r, y: tl.y + r },
+    { x: tr.x - r, y: tr.y + r },
+    { x: br.x - r, y: br.y - r },
+    { x: bl.x + r, y: bl.y - r },
+  ];
+  // Degenerate (corners collapsed onto each other): the region isn't a sheet
+  if (quadArea(corners) < region.length * 0.5) return null;
+  return corners;
+};
+
+// Solves A x = b in place by Gaussian elimination with partial pivoting
+const solve = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    for (let row = col + 1; row < n; row++) {
+      const f = a[row][col] / a[col][col];
+      for (let k = col; k < n; k++) a[row][k] -= f * a[col][k];
+      b[row] -= f * b[col];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let s = b[row];
+    for (let k = row + 1; k < n; k++) s -= a[row][k] * x[k];
+    x[row] = s / a[row][row];
+  }
+  return x;
+};
+
+// Homography taking each from[i] to to[i]
+const homography = (from: Point[], to: Point[]) => {
+  const a: number[][] = [];
+  const b: number[] = [];
+  from.forEach((p, i) => {
+    const q = to[i];
+    a.push([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x]);
+    b.push(q.x);
+    a.push([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y]);
+    b.push(q.y);
+  });
+  const [h0, h1, h2, h3, h4, h5, h6, h7] = solve(a, b);
+  return (p: Point): Point => {
+    const w = h6 * p.x + h7 * p.y + 1;
+    return { x: (h0 * p.x + h1 * p.y + h2) / w, y: (h3 * p.x + h4 * p.y + h5) / w };
+  };
+};
+
+// Warps the sheet inside the corners to a flat image, no larger than the source. The sheet's
+// proportions come from its edge lengths in the photo.
+export const flattenPaper = (image: RasterImage, corners: PaperCorners): RasterImage & { data: Uint8ClampedArray } => {
+  const [tl, tr, br, bl] = corners;
+  const edge = (p: Point, q: Point) => Math.hypot(q.x - p.x, q.y - p.y);
+  const sheetWidth = Math.max(edge(tl, tr), edge(bl, br));
+  const sheetHeight = Math.max(edge(tl, bl), edge(tr, br));
+  const fit = Math.min(1, Math.max(image.width, image.height) / Math.max(sheetWidth, sheetHeight));
+  const width = Math.max(1, Math.round(sheetWidth * fit));
+  const height = Math.max(1, Math.round(sheetHeight * fit));
+
+  const toSource = homography(
+    [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }],
+    corners
+  );
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = toSource({ x: x + 0.5, y: y + 0.5 });
+      // Bilinear sample, clamped to the source
+      const sx = Math.min(image.width - 1, Math.max(0, p.x - 0.5));
+      const sy = Math.min(image.height - 1, Math.max(0, p.y - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(image.width - 1, x0 + 1);
+      const y1 = Math.min(image.height - 1, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      for (let c = 0; c < 4; c++) {
+        const top = image.data[(y0 * image.width + x0) * 4 + c] * (1 - fx) + image.data[(y0 * image.width + x1) * 4 + c] * fx;
+        const bottom = image.data[(y1 * image.width + x0) * 4 + c] * (1 - fx) + image.data[(y1 * image.width + x1) * 4 + c] * fx;
+        data[(y * width + x) * 4 + c] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { width, height, data };
+};
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { PhysicsState, SceneConfig } from '../types';
+import { applyPhysics, createWorld, destroyWorld, readBodyStates, runHeadless, stepWorld, syncWorld } from './physicsWorld';
+
+const EARTH: PhysicsState = { gravity: { x: 0, y: 9.81 }, timeScale: 1, enableCollisionEffects: false };
+const FIXED: PhysicsState = { ...EARTH, fixedTimestep: true, substeps: 4 };
+
+const FLOOR = { id: 'floor', type: 'rectangle' as const, x: 400, y: 580, width: 800, height: 40, isStatic: true };
+
+const DROP: SceneConfig = {
+  bodies: [FLOOR, { id: 'ball', type: 'circle', x: 400, y: 100, radius: 20, isStatic: false }],
+  constraints: [],
+};
+
+const PENDULUM: SceneConfig = {
+  bodies: [
+    { id: 'pivot', type: 'circle', x: 400, y: 100, radius: 5, isStatic: true },
+    { id: 'bob', type: 'circle', x: 550, y: 100, radius: 15, isStatic: false },
+  ],
+  constraints: [{ bodyAId: 'bob', bodyBId: 'pivot', stiffness: 1 }],
+};
+
+const RAMP: SceneConfig = {
+  bodies: [
+    FLOOR,
+    {
+      id: 'ramp', type: 'polygon', x: 300, y: 480, isStatic: true,
+      vertices: [{ x: -200, y: 80 }, { x: 200, y: 80 }, { x: -200, y: -80 }],
+    },
+    { id: 'ball', type: 'circle', x: 250, y: 388, radius: 15, isStatic: false },
+  ],
+  constraints: [],
+};
+
+const SLIDER: SceneConfig = {
+  bodies: [{ id: 'cart', type: 'rectangle', x: 200, y: 200, width: 30, height: 20, isStatic: false }],
+  constraints: [{ type: 'prismatic', bodyAId: 'cart', pointB: { x: 200, y: 200 }, axis: { x: 1, y: 1 } }],
+};
+
+describe('runHeadless', () => {
+  it('returns dynamic bodies only', () => {
+    expect(Object.keys(runHeadless(DROP, EARTH, 1))).toEqual(['ball']);
+  });
+
+  it('drops a body under gravity and leaves it alone without', () => {
+    const falling = runHeadless(DROP, EARTH, 30);
+    expect(falling.ball.y).toBeGreaterThan(150);
+    expect(falling.ball.vy).toBeGreaterThan(0);
+    const floating = runHeadless(DROP, { ...EARTH, gravity: { x: 0, y: 0 } }, 30);
+    expect(floating.ball.y).toBeCloseTo(100);
+  });
+
+  it('lands a dropped ball on the floor', () => {
+    const { ball } = runHeadless(DROP, { ...FIXED, substeps: 8 }, 600);
+    expect(ball.y).toBeCloseTo(560 - 20, 0);
+    expect(Math.abs(ball.vy)).toBeLessThan(0.1);
+  });
+
+  it('keeps a rigid pendulum at its length', () => {
+    const { bob } = runHeadless(PENDULUM, FIXED, 45);
+    expect(Math.hypot(bob.x - 400, bob.y - 100)).toBeCloseTo(150, 0);
+    expect(bob.y).toBeGreaterThan(150);
+  });
+
+  it('rolls a ball down a polygon ramp', () => {
+    const { ball } = runHeadless(RAMP, FIXED, 120);
+    expect(ball.x).toBeGreaterThan(300);
+    expect(ball.y).toBeGreaterThan(400);
+    expect(ball.angularVelocity).toBeGreaterThan(0);
+  });
+
+  it('slides along a rail at the same speed whatever the substeps', () => {
+    const one = runHeadless(SLIDER, { ...FIXED, substeps: 1 }, 30).cart;
+    const four = runHeadless(SLIDER, { ...FIXED, substeps: 4 }, 30).cart;
+    expect(one.vx).toBeGreaterThan(1);
+    expect(four.vx / one.vx).toBeCloseTo(1, 1);
+    expect(four.x - 200).toBeCloseTo(four.y - 200);
+  });
+
+  it('gives identical trajectories in fixed-timestep mode', () => {
+    expect(runHeadless(RAMP, FIXED, 240)).toEqual(runHeadless(RAMP, FIXED, 240));
+  });
+
+  it('skips bodies it cannot build', () => {
+    const scene: SceneConfig = { ...DROP, bodies: [...DROP.bodies, { id: 'bad', type: 'circle', x: NaN, y: 0, radius: 5, isStatic: false }] };
+    expect(Object.keys(runHeadless(scene, EARTH, 1))).toEqual(['ball']);
+  });
+});
+
+describe('syncWorld', () => {
+  it('keeps the motion of bodies an edit did not move', () => {
+    const world = createWorld();
+    try {
+      syncWorld(world, DROP);
+      stepWorld(world, 20);
+      const before = readBodyStates(world).get('ball')!;
+      syncWorld(world, { ...DROP, bodies: [FLOOR, { ...DROP.bodies[1], color: '#ff0000' }] });
+      const after = readBodyStates(world).get('ball')!;
+      expect(after.y).toBeCloseTo(before.y);
+      expect(after.vy).toBeCloseTo(before.vy);
+      expect(world.bodies.get('ball')!.render.fillStyle).toBe('#ff0000');
+    } finally {
+      destroyWorld(world);
+    }
+  });
+
+  it('keeps the speed of an edited body with substeps', () => {
+    const world = createWorld();
+    try {
+      applyPhysics(world, FIXED);
+      syncWorld(world, DROP);
+      stepWorld(world, 20);
+      const before = readBodyStates(world).get('ball')!;
+      syncWorld(world, { ...DROP, bodies: [FLOOR, { ...DROP.bodies[1], restitution: 0.2 }] });
+      expect(readBodyStates(world).get('ball')!.vy).toBeCloseTo(before.vy);
+    } finally {
+      destroyWorld(world);
+    }
+  });
+
+  it('removes bodies and the joints that used them', () => {
+    const world = createWorld();
+    try {
+      syncWorld(world, PENDULUM);
+      expect(world.constraints.size).toBe(1);
+      syncWorld(world, { bodies: [PENDULUM.bodies[1]], constraints: [] });
+      expect([...world.bodies.keys()]).toEqual(['bob']);
+      expect(world.constraints.size).toBe(0);
+    } finally {
+      destroyWorld(world);
+    }
+  });
+});
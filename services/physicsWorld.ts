@@ -0,0 +1,312 @@
+import Matter from 'matter-js';
+import decomp from 'poly-decomp';
+import { BodyDef, ConstraintDef, PhysicsState, SceneConfig } from '../types';
+import { createJoint, settleJoints, stepJoints } from './joints';
+import { WORLD_HEIGHT_PX, WORLD_WIDTH_PX, gravityToMatter } from './units';
+
+// World building and stepping with no DOM: the canvas renders a PhysicsWorld,
+// and scripts or tests can run one headless with runHeadless().
+
+// Lets Bodies.fromVertices split concave outlines into convex parts instead of hulling them
+Matter.Common.setDecomp(decomp);
+
+// Same delta the default Runner uses, so stepped and free-running ticks match
+export const TICK_MS = 1000 / 60;
+export const MAX_SUBSTEPS = 8;
+// Fired on the engine once per tick, after all of its substeps. Record and measure on this, not afterUpdate.
+export const TICK_EVENT = 'afterTick';
+// A fixed-timestep frame runs at most this many ticks; a slow device falls behind real time instead of skipping ticks
+const MAX_TICKS_PER_FRAME = 4;
+
+const WALL_THICKNESS = 2000;
+// Matter gravity beyond this (in g) makes bodies tunnel through each other
+const MAX_MATTER_GRAVITY = 10;
+
+// Position edits smaller than this are rounding noise from the voice prompt context, not moves
+const MOVE_TOLERANCE = 1;
+
+// Styles for "Neon 3D" look
+const DEFAULT_FILL = '#22d3ee'; // Cyan
+const DYNAMIC_FILL = '#f472b6'; // Pink
+
+export interface PhysicsWorld {
+  engine: Matter.Engine;
+  // Engine updates per tick (fixed-timestep mode only) and how many of them the current tick has run
+  substeps: number;
+  substep: number;
+  // Live world contents keyed by BodyDef id (also each body's label), diffed against each new scene
+  bodyDefs: Map<string, BodyDef>;
+  bodies: Map<string, Matter.Body>;
+  constraints: Map<string, Matter.Constraint>;
+}
+
+// A dynamic body's state in Matter units: px, rad, and px (rad) per 1000/60 ms base tick
+export interface BodyState {
+  x: number;
+  y: number;
+  angle: number;
+  vx: number;
+  vy: number;
+  angularVelocity: number;
+}
+
+export const createBody = (def: BodyDef): Matter.Body | null => {
+  const Bodies = Matter.Bodies;
+  let body: Matter.Body;
+
+  // Determine Border Color based on Friction
+  // Ice (< 0.05) -> Blue/Cyan border
+  // Sticky (> 0.5) -> Amber/Orange border
+  // Normal -> White border
+  const friction = def.friction !== undefined ? def.friction : 0.1;
+  let strokeColor = '#fff';
+  if (friction < 0.05) strokeColor = '#67e8f9'; // Cyan-300
+  else if (friction > 0.5) strokeColor = '#fbbf24'; // Amber-400
+
+  const commonOptions: Matter.IBodyDefinition = {
+    isStatic: def.isStatic,
+    angle: def.angle || 0,
+    friction: friction,
+    restitution: def.restitution !== undefined ? def.restitution : 0.6,
+    frictionAir: def.frictionAir !== undefined ? def.frictionAir : 0.01,
+    render: {
+      fillStyle: def.color || (def.isStatic ? DEFAULT_FILL : DYNAMIC_FILL),
+      strokeStyle: strokeColor,
+      lineWidth: friction > 0.5 || friction < 0.05 ? 4 : 2, // Thicker border for modified friction
+      opacity: 0.9,
+    },
+    label: def.id,
+    plugin: { shape: def.type },
+  };
+  if (def.density !== undefined) commonOptions.density = def.density;
+
+  const x = def.x;
+  const y = def.y;
+
+  // Safety: Ensure finite coordinates
+  if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+
+  if (def.type === 'circle') {
+    body = Bodies.circle(x, y, def.radius || 20, commonOptions);
+  } else if ((def.type === 'polygon' || def.type === 'path') && def.vertices && def.vertices.length >= 3) {
+    // fromVertices re-centers the outline on its centroid and places that at (x, y)
+    body = Bodies.fromVertices(x, y, [def.vertices], commonOptions);
+    // Decomposition can fail on self-intersecting freehand outlines
+    if (!body || !Number.isFinite(body.position.x)) {
+      body = Bodies.rectangle(x, y, def.width || 100, def.height || 20, commonOptions);
+    }
+  } else {
+    body = Bodies.rectangle(x, y, def.width || 100, def.height || 20, commonOptions);
+  }
+
+  // Explicit mass wins over density (Matter derives mass from density * area)
+  if (def.mass !== undefined && !def.isStatic) Matter.Body.setMass(body, def.mass);
+
+  return body;
+};
+
+const wasMoved = (prev: BodyDef, next: BodyDef): boolean =>
+  Math.abs(prev.x - next.x) > MOVE_TOLERANCE ||
+  Math.abs(prev.y - next.y) > MOVE_TOLERANCE ||
+  (prev.angle || 0) !== (next.angle || 0);
+
+// Constraints have no ids, so they are matched by content
+const constraintKey = (cDef: ConstraintDef): string => JSON.stringify(cDef);
+
+// An empty walled world. Joints are driven from engine events, so every tick
+// (Runner, stepWorld or a plain Engine.update) moves them the same way.
+export const createWorld = (): PhysicsWorld => {
+  const engine = Matter.Engine.create();
+  const world: PhysicsWorld = { engine, substeps: 1, substep: 0, bodyDefs: new Map(), bodies: new Map(), constraints: new Map() };
+
+  // Boundaries
+  const walls = { isStatic: true, render: { visible: false } };
+  Matter.Composite.add(engine.world, [
+    Matter.Bodies.rectangle(WORLD_WIDTH_PX/2, -WALL_THICKNESS/2, WORLD_WIDTH_PX + WALL_THICKNESS*2, WALL_THICKNESS, walls),
+    Matter.Bodies.rectangle(WORLD_WIDTH_PX/2, WORLD_HEIGHT_PX + WALL_THICKNESS/2, WORLD_WIDTH_PX + WALL_THICKNESS*2, WALL_THICKNESS, walls),
+    Matter.Bodies.rectangle(-WALL_THICKNESS/2, WORLD_HEIGHT_PX/2, WALL_THICKNESS, WORLD_HEIGHT_PX + WALL_THICKNESS*2, walls),
+    Matter.Bodies.rectangle(WORLD_WIDTH_PX + WALL_THICKNESS/2, WORLD_HEIGHT_PX/2, WALL_THICKNESS, WORLD_HEIGHT_PX + WALL_THICKNESS*2, walls),
+  ]);
+
+  // Ropes and motors act before every tick, sliders are corrected after it (before anything records it)
+  Matter.Events.on(engine, 'beforeUpdate', () => stepJoints(world.constraints.values()));
+  Matter.Events.on(engine, 'afterUpdate', () => settleJoints(world.constraints.values()));
+
+  // The default Runner does one update per tick; stepWorld does `substeps`
+  Matter.Events.on(engine, 'afterUpdate', () => {
+    world.substep += 1;
+    if (world.substep < world.substeps) return;
+    world.substep = 0;
+    Matter.Events.trigger(engine, TICK_EVENT, { timestamp: engine.timing.timestamp });
+  });
+
+  return world;
+};
+
+// Add, rebuild or remove only what changed since the last sync
+export const syncWorld = (world: PhysicsWorld, scene: SceneConfig) => {
+  const { engine } = world;
+  const Composite = Matter.Composite;
+  const Body = Matter.Body;
+
+  const prevDefs = world.bodyDefs;
+  const bodies = world.bodies;
+  const nextDefs = new Map<string, BodyDef>();
+  const rebuiltIds = new Set<string>();
+
+  try {
+    (scene.bodies || []).forEach((def) => {
+      nextDefs.set(def.id, def);
+      const prevDef = prevDefs.get(def.id);
+      if (prevDef === def || (prevDef && JSON.stringify(prevDef) === JSON.stringify(def))) return;
+
+      const body = createBody(def);
+      if (!body) return;
+
+      const live = bodies.get(def.id);
+      if (live) {
+        // Changed body: swap in a fresh one but keep its motion unless the edit moved it
+        if (prevDef && !wasMoved(prevDef, def)) {
+          Body.setPosition(body, live.position);
+          Body.setAngle(body, live.angle);
+          if (!def.isStatic) {
+            Body.setVelocity(body, Body.getVelocity(live));
+            Body.setAngularVelocity(body, Body.getAngularVelocity(live));
+          }
+        }
+        Composite.remove(engine.world, live);
+        rebuiltIds.add(def.id);
+      }
+      bodies.set(def.id, body);
+      Composite.add(engine.world, body);
+    });
+  } catch (err) {
+    console.error("Error creating bodies:", err);
+  }
+
+  prevDefs.forEach((_, id) => {
+    if (nextDefs.has(id)) return;
+    const live = bodies.get(id);
+    if (live) Composite.remove(engine.world, live);
+    bodies.delete(id);
+    rebuiltIds.add(id);
+  });
+  world.bodyDefs = nextDefs;
+
+  // Constraints: keep unchanged ones whose bodies survived, rebuild the rest
+  const prevConstraints = world.constraints;
+  const nextConstraints = new Map<string, Matter.Constraint>();
+  (scene.constraints || []).forEach((cDef, index) => {
+    let key = constraintKey(cDef);
+    if (nextConstraints.has(key)) key = `${key}#${index}`;
+    const touchesRebuilt = rebuiltIds.has(cDef.bodyAId) || (!!cDef.bodyBId && rebuiltIds.has(cDef.bodyBId));
+    const live = prevConstraints.get(key);
+    if (live && !touchesRebuilt) {
+      nextConstraints.set(key, live);
+      prevConstraints.delete(key);
+      return;
+    }
+    try {
+      const constraint = createJoint(cDef, bodies);
+      if (constraint) {
+        nextConstraints.set(key, constraint);
+        Composite.add(engine.world, constraint);
+      }
+    } catch (err) {
+      console.warn("Failed to create constraint:", cDef, err);
+    }
+  });
+  prevConstraints.forEach(constraint => Composite.remove(engine.world, constraint));
+  world.constraints = nextConstraints;
+};
+
+export const applyPhysics = (world: PhysicsWorld, physics: PhysicsState) => {
+  const { engine } = world;
+  // Gravity is in m/s²; at PIXELS_PER_METER, Earth (9.81) falls at 981 px/s².
+  // We also clamp to prevent crash.
+  const normalizedY = gravityToMatter(physics.gravity.y);
+  const normalizedX = gravityToMatter(physics.gravity.x);
+  engine.gravity.x = isFinite(normalizedX) ? Math.min(Math.max(normalizedX, -MAX_MATTER_GRAVITY), MAX_MATTER_GRAVITY) : 0;
+  engine.gravity.y = isFinite(normalizedY) ? Math.min(Math.max(normalizedY, -MAX_MATTER_GRAVITY), MAX_MATTER_GRAVITY) : 1;
+  engine.timing.timeScale = physics.timeScale;
+
+  // Stepping draws no random numbers (every body gets an explicit fill), so equal ticks give equal runs
+  world.substeps = physics.fixedTimestep ? Math.min(Math.max(Math.round(physics.substeps ?? 1), 1), MAX_SUBSTEPS) : 1;
+  world.substep = 0;
+};
+
+export const stepWorld = (world: PhysicsWorld, ticks = 1) => {
+  for (let i = 0; i < ticks; i++) {
+    for (let s = 0; s < world.substeps; s++) {
+      Matter.Engine.update(world.engine, TICK_MS / world.substeps);
+    }
+  }
+};
+
+// Real time not yet turned into ticks by advanceFixedStep
+export interface FixedStepClock {
+  accumulator: number;
+}
+
+// Runs every whole tick that fits in the real time elapsed since the last frame and carries the
+// remainder over, so the ticks (and so the trajectories) never depend on the display's frame rate
+export const advanceFixedStep = (world: PhysicsWorld, clock: FixedStepClock, elapsedMs: number): number => {
+  clock.accumulator = Math.min(clock.accumulator + Math.max(elapsedMs, 0), TICK_MS * MAX_TICKS_PER_FRAME);
+  let ticks = 0;
+  while (clock.accumulator >= TICK_MS) {
+    stepWorld(world);
+    clock.accumulator -= TICK_MS;
+    ticks++;
+  }
+  return ticks;
+};
+
+// Dynamic bodies only; static ones never move
+export const readBodyStates = (world: PhysicsWorld): Map<string, BodyState> => {
+  const states = new Map<string, BodyState>();
+  world.bodies.forEach((body, id) => {
+    if (body.isStatic) return;
+    const velocity = Matter.Body.getVelocity(body);
+    states.set(id, {
+      x: body.position.x,
+      y: body.position.y,
+      angle: body.angle,
+      vx: velocity.x,
+      vy: velocity.y,
+      angularVelocity: Matter.Body.getAngularVelocity(body),
+    });
+  });
+  return states;
+};
+
+export const restoreBodyStates = (world: PhysicsWorld, states: Map<string, BodyState>) => {
+  states.forEach((state, id) => {
+    const body = world.bodies.get(id);
+    if (!body) return;
+    Matter.Body.setPosition(body, { x: state.x, y: state.y });
+    Matter.Body.setAngle(body, state.angle);
+    Matter.Body.setVelocity(body, { x: state.vx, y: state.vy });
+    Matter.Body.setAngularVelocity(body, state.angularVelocity);
+  });
+};
+
+export const destroyWorld = (world: PhysicsWorld) => {
+  Matter.World.clear(world.engine.world, false);
+  Matter.Engine.clear(world.engine);
+  world.bodyDefs.clear();
+  world.bodies.clear();
+  world.constraints.clear();
+};
+
+// Builds the scene, steps it a fixed number of ticks and returns where every dynamic body ended up
+export const runHeadless = (scene: SceneConfig, physics: PhysicsState, ticks: number): Record<string, BodyState> => {
+  const world = createWorld();
+  try {
+    applyPhysics(world, physics);
+    syncWorld(world, scene);
+    stepWorld(world, ticks);
+    return Object.fromEntries(readBodyStates(world));
+  } finally {
+    destroyWorld(world);
+  }
+};
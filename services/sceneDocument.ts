@@ -0,0 +1,149 @@
+import { BodyDef, ConstraintDef, PhysicsState, SceneConfig, SceneDocument, SceneMetadata } from "../types";
+import { BODY_TYPES, JOINT_TYPES, validatePhysicsState, validateScene } from "./sceneValidator";
+
+export const SCENE_DOCUMENT_FORMAT = 'living-notebook-scene';
+export const SCENE_DOCUMENT_VERSION = 1;
+
+export const DEFAULT_PHYSICS: PhysicsState = {
+  gravity: { x: 0, y: 9.81 },
+  timeScale: 1,
+  enableCollisionEffects: true,
+};
+
+// Far more than any drawn outline; validateScene thins what is left before poly-decomp sees it
+const MAX_DOCUMENT_VERTICES = 1000;
+
+// Each migration takes a document at version N and returns it at version N + 1.
+// Version 0 is anything written before the wrapper existed: a bare SceneConfig
+// (e.g. a saved analyzeSketch result) or { sceneConfig, physicsState }.
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  0: (doc) => {
+    const sceneConfig = doc.sceneConfig || { bodies: doc.bodies, constraints: doc.constraints };
+    return {
+      format: SCENE_DOCUMENT_FORMAT,
+      version: 1,
+      metadata: { name: 'Imported scene', createdAt: new Date().toISOString() },
+      sceneConfig,
+      physicsState: doc.physicsState || DEFAULT_PHYSICS,
+    };
+  },
+};
+
+export const createSceneDocument = (
+  sceneConfig: SceneConfig,
+  physicsState: PhysicsState,
+  metadata: Partial<SceneMetadata> = {}
+): SceneDocument => ({
+  format: SCENE_DOCUMENT_FORMAT,
+  version: SCENE_DOCUMENT_VERSION,
+  metadata: {
+    name: metadata.name || 'Untitled scene',
+    createdAt: metadata.createdAt || new Date().toISOString(),
+    ...(metadata.description ? { description: metadata.description } : {}),
+  },
+  sceneConfig,
+  physicsState,
+});
+
+const isFiniteNumber = (n: any): boolean => typeof n === 'number' && Number.isFinite(n);
+
+const validateBody = (body: any, index: number) => {
+  const where = `Body ${index + 1}`;
+  if (!body || typeof body !== 'object') throw new Error(`${where} is not an object.`);
+  if (typeof body.id !== 'string' || !body.id) throw new Error(`${where} has no id.`);
+  if (!BODY_TYPES.includes(body.type)) throw new Error(`${where} ("${body.id}") has unknown type "${body.type}".`);
+  if (!isFiniteNumber(body.x) || !isFiniteNumber(body.y)) throw new Error(`${where} ("${body.id}") has an invalid position.`);
+  if (typeof body.isStatic !== 'boolean') throw new Error(`${where} ("${body.id}") is missing isStatic.`);
+  ['width', 'height', 'radius'].forEach(key => {
+    if (body[key] !== undefined && !(isFiniteNumber(body[key]) && body[key] > 0)) {
+      throw new Error(`${where} ("${body.id}") has an invalid ${key}.`);
+    }
+  });
+  if (body.vertices !== undefined) {
+    if (Array.isArray(body.vertices) && body.vertices.length > MAX_DOCUMENT_VERTICES) {
+      throw new Error(`${where} ("${body.id}") has too many vertices.`);
+    }
+    if (!Array.isArray(body.vertices) || body.vertices.some((v: any) => !v || !isFiniteNumber(v.x) || !isFiniteNumber(v.y))) {
+      throw new Error(`${where} ("${body.id}") has invalid vertices.`);
+    }
+  }
+};
+
+const validateConstraint = (constraint: any, index: number, bodyIds: Set<string>) => {
+  const where = `Constraint ${index + 1}`;
+  if (!constraint || typeof constraint !== 'object') throw new Error(`${where} is not an object.`);
+  if (constraint.type !== undefined && !JOINT_TYPES.includes(constraint.type)) {
+    throw new Error(`${where} has unknown joint type "${constraint.type}".`);
+  }
+  if (!bodyIds.has(constraint.bodyAId)) throw new Error(`${where} references unknown body "${constraint.bodyAId}".`);
+  if (constraint.bodyBId !== undefined && !bodyIds.has(constraint.bodyBId)) {
+    throw new Error(`${where} references unknown body "${constraint.bodyBId}".`);
+  }
+};
+
+// Only checks the shape; values are clamped by validatePhysicsState like model output
+const validatePhysics = (physics: any) => {
+  if (!physics || typeof physics !== 'object') throw new Error('Physics settings are missing.');
+  if (!physics.gravity || !isFiniteNumber(physics.gravity.x) || !isFiniteNumber(physics.gravity.y)) {
+    throw new Error('Gravity must have numeric x and y.');
+  }
+};
+
+// Throws with a user-facing message describing the first problem found. Files and links come
+// from anywhere, so the scene is then normalized like model output: angles, mass, friction,
+// joint settings, vertex counts, gravity and time scale are clamped to ranges the engine can run.
+export const validateSceneDocument = (doc: any): SceneDocument => {
+  if (doc.format !== SCENE_DOCUMENT_FORMAT) throw new Error('Not a Living Notebook scene file.');
+  if (!doc.metadata || typeof doc.metadata.name !== 'string') throw new Error('Scene metadata is missing a name.');
+  const scene = doc.sceneConfig;
+  if (!scene || !Array.isArray(scene.bodies)) throw new Error('Scene has no body list.');
+  scene.bodies.forEach(validateBody);
+  const bodyIds = new Set<string>(scene.bodies.map((b: BodyDef) => b.id));
+  if (scene.constraints !== undefined && !Array.isArray(scene.constraints)) throw new Error('Scene constraints must be a list.');
+  (scene.constraints || []).forEach((c: ConstraintDef, i: number) => validateConstraint(c, i, bodyIds));
+  validatePhysics(doc.physicsState);
+  const { sceneConfig } = validateScene({ bodies: scene.bodies, constraints: scene.constraints || [] });
+  const { physicsState } = validatePhysicsState(doc.physicsState, DEFAULT_PHYSICS);
+  return { ...doc, sceneConfig, physicsState } as SceneDocument;
+};
+
+// Brings any supported older document up to SCENE_DOCUMENT_VERSION
+export const migrateSceneDocument = (raw: any): any => {
+  if (!raw || typeof raw !== 'object') throw new Error('Scene file is empty or not an object.');
+  let doc = raw;
+  let version = typeof doc.version === 'number' ? doc.version : 0;
+  if (version > SCENE_DOCUMENT_VERSION) {
+    throw new Error(`Scene file is version ${version}; this app only reads up to version ${SCENE_DOCUMENT_VERSION}.`);
+  }
+  while (version < SCENE_DOCUMENT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Scene file version ${version} is not supported.`);
+    doc = migrate(doc);
+    version = doc.version;
+  }
+  return doc;
+};
+
+export const parseSceneDocument = (text: string): SceneDocument => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Scene file is not valid JSON.');
+  }
+  return validateSceneDocument(migrateSceneDocument(raw));
+};
+
+export const serializeSceneDocument = (doc: SceneDocument): string => JSON.stringify(doc, null, 2);
+
+// Triggers a browser download of the document as <name>.scene.json
+export const downloadSceneDocument = (doc: SceneDocument) => {
+  const blob = new Blob([serializeSceneDocument(doc)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const slug = doc.metadata.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scene';
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${slug}.scene.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,71 @@
+import { LibraryEntry } from "../types";
+
+// Client-side gallery of simulated sketches, kept in IndexedDB so it works offline
+
+const DB_NAME = 'living-notebook';
+const DB_VERSION = 1;
+const STORE = 'scenes';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("This browser does not support local storage of scenes."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open (e.g. private browsing quota errors)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves with its result
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error("Library transaction aborted."));
+  });
+};
+
+export const createLibraryId = (): string =>
+  `scene_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Newest first
+export const listScenes = async (): Promise<LibraryEntry[]> => {
+  const entries = await withStore<LibraryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getScene = (id: string): Promise<LibraryEntry | undefined> =>
+  withStore<LibraryEntry | undefined>('readonly', store => store.get(id));
+
+export const saveScene = async (entry: LibraryEntry): Promise<void> => {
+  await withStore('readwrite', store => store.put(entry));
+};
+
+export const renameScene = async (id: string, name: string): Promise<void> => {
+  const entry = await getScene(id);
+  if (!entry) throw new Error("Scene no longer exists in the library.");
+  await saveScene({ ...entry, name, updatedAt: new Date().toISOString() });
+};
+
+export const deleteScene = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
@@ -0,0 +1,44 @@
+import { ConversationTurn, PhysicsState, SceneConfig, VoiceCommandResponse } from "../types";
+import { ImageSize } from "./frameTransform";
+import { geminiProvider } from "./geminiProvider";
+import { localProvider } from "./localProvider";
+import { mockProvider } from "./mockProvider";
+
+// A spoken or typed instruction. Typed commands carry no audio; the transcript is the command itself.
+export interface CommandRequest {
+  audioBase64?: string;
+  mimeType?: string;
+  transcript: string;
+  currentPhysics: PhysicsState;
+  currentScene: SceneConfig | null;
+  // Earlier commands this session, oldest first, already trimmed to the token budget
+  conversation?: ConversationTurn[];
+}
+
+// A backend that turns a sketch or a command into scene JSON. Local providers build these
+// types directly; model output only claims to match them, so geminiService validates and
+// remaps IDs on every result regardless of where it came from.
+// Sketch results are in the image's own pixels; geminiService maps them into the world.
+// existing (also in image px) lists bodies already built from an earlier photo of the page;
+// providers may use it to report only additions, and geminiService drops repeats either way.
+export interface SceneProvider {
+  name: string;
+  analyzeSketch: (base64Image: string, size: ImageSize, existing?: SceneConfig) => Promise<SceneConfig>;
+  interpretCommand: (request: CommandRequest) => Promise<VoiceCommandResponse>;
+}
+
+const PROVIDERS: Record<string, SceneProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+  local: localProvider,
+};
+
+// SCENE_PROVIDER=mock (canned sketch) or local (offline recognizer) in .env.local runs the app fully offline
+let activeProvider: SceneProvider = PROVIDERS[process.env.SCENE_PROVIDER || ''] || geminiProvider;
+
+export const getSceneProvider = (): SceneProvider => activeProvider;
+
+// Lets tests (or a settings toggle) swap the backend at runtime
+export const setSceneProvider = (provider: SceneProvider | keyof typeof PROVIDERS) => {
+  activeProvider = typeof provider === 'string' ? (PROVIDERS[provider] || geminiProvider) : provider;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { validateCommandResponse, validateScene } from './sceneValidator';
+
+const ball = (extra: object = {}) => ({ id: 'ball', type: 'circle', x: 200, y: 100, radius: 20, isStatic: false, ...extra });
+
+describe('validateScene colors', () => {
+  it.each(['#f00', '#ff0000', '#ff000080', 'rgb(255, 0, 0)', 'rgba(255 0 0 / 50%)', 'hsl(120deg 50% 50%)', 'red', 'RebeccaPurple'])(
+    'keeps %s', color => {
+      const { sceneConfig, warnings } = validateScene({ bodies: [ball({ color })] });
+      expect(sceneConfig.bodies[0].color).toBe(color);
+      expect(warnings).toEqual([]);
+    }
+  );
+
+  it.each(['banana', 'rgb(red)', '#ggg', 'url(evil)'])('removes %s with a warning', color => {
+    const { sceneConfig, warnings } = validateScene({ bodies: [ball({ color })] });
+    expect(sceneConfig.bodies[0].color).toBeUndefined();
+    expect(warnings).toEqual([{ path: 'bodies[0].color', message: `"${color}" is not a color, removed` }]);
+  });
+});
+
+describe('self-linked joints', () => {
+  it('are dropped from a scene', () => {
+    const { sceneConfig, warnings } = validateScene({
+      bodies: [ball()],
+      constraints: [{ bodyAId: 'ball', bodyBId: 'ball' }],
+    });
+    expect(sceneConfig.constraints).toEqual([]);
+    expect(warnings).toEqual([{ path: 'constraints[0]', message: 'links "ball" to itself, dropped' }]);
+  });
+
+  it('are dropped from a command', () => {
+    const { response, warnings } = validateCommandResponse(
+      { newConstraints: [{ bodyAId: 'ball', bodyBId: 'ball', type: 'spring' }] },
+      { bodies: [ball() as any], constraints: [] }
+    );
+    expect(response.newConstraints).toBeUndefined();
+    expect(warnings.map(w => w.message)).toEqual(['links "ball" to itself, dropped']);
+  });
+
+  it('leave a body pinned to the world alone', () => {
+    const { sceneConfig, warnings } = validateScene({
+      bodies: [ball()],
+      constraints: [{ bodyAId: 'ball', type: 'revolute' }],
+    });
+    expect(sceneConfig.constraints).toHaveLength(1);
+    expect(warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,459 @@
+import { BodyDef, ConstraintDef, JointType, PhysicsState, PlotQuantity, Point, SceneConfig, ValidationWarning, VoiceCommandResponse } from "../types";
+
+// Runtime validator/normalizer for everything a provider returns. The rule
+// tables are keyed by the interfaces in types.ts (a missing or extra field is
+// a compile error), so adding a BodyDef field means adding its rule here.
+
+type BodyType = BodyDef['type'];
+
+type FieldRule =
+  | { kind: 'number'; min: number; max: number; fallback?: number; requiredFor?: BodyType[] | 'all' }
+  | { kind: 'string'; required?: boolean }
+  | { kind: 'enum'; values: readonly string[]; fallback: string }
+  | { kind: 'boolean'; fallback: boolean }
+  | { kind: 'color' }
+  | { kind: 'point' }
+  | { kind: 'vertices'; requiredFor: BodyType[] };
+
+export const BODY_TYPES: readonly BodyType[] = ['circle', 'rectangle', 'polygon', 'path'];
+
+const BODY_RULES: { [K in keyof Required<BodyDef>]: FieldRule } = {
+  id: { kind: 'string', required: true },
+  type: { kind: 'enum', values: BODY_TYPES, fallback: 'rectangle' },
+  x: { kind: 'number', min: -2000, max: 2000, fallback: 400, requiredFor: 'all' },
+  y: { kind: 'number', min: -2000, max: 2000, fallback: 300, requiredFor: 'all' },
+  width: { kind: 'number', min: 1, max: 2000, fallback: 100, requiredFor: ['rectangle'] },
+  height: { kind: 'number', min: 1, max: 2000, fallback: 20, requiredFor: ['rectangle'] },
+  radius: { kind: 'number', min: 1, max: 400, fallback: 20, requiredFor: ['circle'] },
+  vertices: { kind: 'vertices', requiredFor: ['polygon', 'path'] },
+  angle: { kind: 'number', min: -1000, max: 1000, fallback: 0 },
+  isStatic: { kind: 'boolean', fallback: false },
+  color: { kind: 'color' },
+  friction: { kind: 'number', min: 0, max: 1, fallback: 0.1 },
+  mass: { kind: 'number', min: 0.01, max: 1000, fallback: 1 },
+  density: { kind: 'number', min: 0.0001, max: 0.1, fallback: 0.001 },
+  restitution: { kind: 'number', min: 0, max: 1, fallback: 0.6 },
+  frictionAir: { kind: 'number', min: 0, max: 1, fallback: 0.01 },
+};
+
+export const JOINT_TYPES: readonly JointType[] = ['spring', 'rope', 'revolute', 'prismatic', 'motor'];
+
+const CONSTRAINT_RULES: { [K in keyof Required<ConstraintDef>]: FieldRule } = {
+  type: { kind: 'enum', values: JOINT_TYPES, fallback: 'spring' },
+  bodyAId: { kind: 'string', required: true },
+  bodyBId: { kind: 'string' },
+  pointA: { kind: 'point' },
+  pointB: { kind: 'point' },
+  stiffness: { kind: 'number', min: 0.001, max: 1, fallback: 0.1 },
+  length: { kind: 'number', min: 1, max: 1000 },
+  damping: { kind: 'number', min: 0, max: 1 },
+  axis: { kind: 'point' },
+  motorSpeed: { kind: 'number', min: -50, max: 50 },
+};
+
+const GRAVITY_LIMIT = 50; // m/s², well past Jupiter
+const PHYSICS_RULES: { [K in keyof Required<Omit<PhysicsState, 'gravity'>>]: FieldRule } = {
+  timeScale: { kind: 'number', min: 0, max: 5, fallback: 1 },
+  enableCollisionEffects: { kind: 'boolean', fallback: true },
+  fixedTimestep: { kind: 'boolean', fallback: false },
+  substeps: { kind: 'number', min: 1, max: 8, fallback: 1 },
+};
+
+const PLOT_QUANTITIES: readonly PlotQuantity[] = ['height', 'speed', 'energy'];
+const PLOT_QUANTITY_RULE: FieldRule = { kind: 'enum', values: PLOT_QUANTITIES, fallback: 'height' };
+
+// What the models actually say instead of our enum values (body, joint and plot types)
+const TYPE_SYNONYMS: Record<string, BodyType | JointType | PlotQuantity> = {
+  ball: 'circle', sphere: 'circle', disc: 'circle',
+  box: 'rectangle', rect: 'rectangle', square: 'rectangle', block: 'rectangle', wall: 'rectangle', floor: 'rectangle',
+  triangle: 'polygon', wedge: 'polygon', ramp: 'polygon',
+  outline: 'path', freehand: 'path',
+  elastic: 'spring', bungee: 'spring', string: 'rope', cable: 'rope', chain: 'rope', pulley: 'rope',
+  hinge: 'revolute', pin: 'revolute', pivot: 'revolute', axle: 'revolute',
+  slider: 'prismatic', rail: 'prismatic', track: 'prismatic', wheel: 'motor', motorized: 'motor',
+  y: 'height', position: 'height', altitude: 'height', velocity: 'speed',
+  kinetic: 'energy', potential: 'energy', 'total energy': 'energy',
+};
+
+// Freehand outlines can come back with hundreds of points; keep enough to preserve the shape
+const MAX_VERTICES = 48;
+
+const COLOR_PATTERN = /^(#[0-9a-f]{3,4}|#[0-9a-f]{6}|#[0-9a-f]{8}|rgba?\([\d.%\s,/]+\)|hsla?\([\d.%\s,/deg]+\))$/i;
+// CSS named colors; the canvas ignores any other word and keeps whatever fill came before
+const NAMED_COLORS = new Set((
+  'aliceblue antiquewhite aqua aquamarine azure beige bisque black blanchedalmond blue blueviolet brown ' +
+  'burlywood cadetblue chartreuse chocolate coral cornflowerblue cornsilk crimson cyan darkblue darkcyan ' +
+  'darkgoldenrod darkgray darkgreen darkgrey darkkhaki darkmagenta darkolivegreen darkorange darkorchid ' +
+  'darkred darksalmon darkseagreen darkslateblue darkslategray darkslategrey darkturquoise darkviolet ' +
+  'deeppink deepskyblue dimgray dimgrey dodgerblue firebrick floralwhite forestgreen fuchsia gainsboro ' +
+  'ghostwhite gold goldenrod gray green greenyellow grey honeydew hotpink indianred indigo ivory khaki ' +
+  'lavender lavenderblush lawngreen lemonchiffon lightblue lightcoral lightcyan lightgoldenrodyellow ' +
+  'lightgray lightgreen lightgrey lightpink lightsalmon lightseagreen lightskyblue lightslategray ' +
+  'lightslategrey lightsteelblue lightyellow lime limegreen linen magenta maroon mediumaquamarine ' +
+  'mediumblue mediumorchid mediumpurple mediumseagreen mediumslateblue mediumspringgreen mediumturquoise ' +
+  'mediumvioletred midnightblue mintcream mistyrose moccasin navajowhite navy oldlace olive olivedrab ' +
+  'orange orangered orchid palegoldenrod palegreen paleturquoise palevioletred papayawhip peachpuff peru ' +
+  'pink plum powderblue purple rebeccapurple red rosybrown royalblue saddlebrown salmon sandybrown ' +
+  'seagreen seashell sienna silver skyblue slateblue slategray slategrey snow springgreen steelblue tan ' +
+  'teal thistle tomato turquoise violet wheat white whitesmoke yellow yellowgreen'
+).split(' '));
+
+const isColor = (value: string): boolean => COLOR_PATTERN.test(value) || NAMED_COLORS.has(value.toLowerCase());
+
+const sanitizeNumber = (val: any, min: number, max: number, fallback: number | undefined): number => {
+  const n = parseFloat(val);
+  if (isNaN(n) || !isFinite(n)) return fallback !== undefined ? fallback : min;
+  return Math.min(Math.max(n, min), max);
+};
+
+const isNumeric = (val: any): boolean => {
+  const n = typeof val === 'number' ? val : parseFloat(val);
+  return Number.isFinite(n);
+};
+
+const sanitizeVertices = (vertices: any): Point[] | undefined => {
+  if (!Array.isArray(vertices)) return undefined;
+  let points: Point[] = vertices
+    .filter(v => v && isNumeric(v.x) && isNumeric(v.y))
+    .map(v => ({
+      x: sanitizeNumber(v.x, -1000, 1000, 0),
+      y: sanitizeNumber(v.y, -1000, 1000, 0),
+    }));
+  if (points.length > MAX_VERTICES) {
+    const step = points.length / MAX_VERTICES;
+    points = Array.from({ length: MAX_VERTICES }, (_, i) => points[Math.floor(i * step)]);
+  }
+  return points.length >= 3 ? points : undefined;
+};
+
+const isRequired = (rule: FieldRule, type: BodyType | undefined): boolean => {
+  if (!('requiredFor' in rule) || !rule.requiredFor) return false;
+  if (rule.requiredFor === 'all') return true;
+  return !!type && rule.requiredFor.includes(type);
+};
+
+// Normalizes one field. Returns undefined to leave it out.
+const normalizeField = (
+  rule: FieldRule,
+  value: any,
+  path: string,
+  warnings: ValidationWarning[],
+  required: boolean
+): any => {
+  const missing = value === undefined || value === null || value === '';
+  switch (rule.kind) {
+    case 'number': {
+      if (missing) {
+        if (!required) return undefined;
+        warnings.push({ path, message: `missing, defaulted to ${rule.fallback}` });
+        return rule.fallback;
+      }
+      if (!isNumeric(value)) {
+        if (!required && rule.fallback === undefined) {
+          warnings.push({ path, message: `"${value}" is not a number, removed` });
+          return undefined;
+        }
+        warnings.push({ path, message: `"${value}" is not a number, defaulted to ${rule.fallback}` });
+        return rule.fallback;
+      }
+      const n = sanitizeNumber(value, rule.min, rule.max, rule.fallback);
+      if (n !== parseFloat(value)) warnings.push({ path, message: `${value} clamped to ${n}` });
+      return n;
+    }
+    case 'string':
+      if (missing) return undefined;
+      return String(value);
+    case 'enum': {
+      if (missing && !required) return undefined;
+      const text = String(value ?? '').toLowerCase().trim();
+      if (rule.values.includes(text)) return text;
+      const synonym = TYPE_SYNONYMS[text];
+      if (synonym && rule.values.includes(synonym)) return synonym;
+      if (!required) {
+        warnings.push({ path, message: `unknown value "${value}", ignored` });
+        return undefined;
+      }
+      warnings.push({ path, message: `unknown value "${value}", defaulted to ${rule.fallback}` });
+      return rule.fallback;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') return value === 'true';
+      if (!required && missing) return undefined;
+      warnings.push({ path, message: `missing or not true/false, defaulted to ${rule.fallback}` });
+      return rule.fallback;
+    case 'color':
+      if (missing) return undefined;
+      if (typeof value === 'string' && isColor(value.trim())) return value.trim();
+      warnings.push({ path, message: `"${value}" is not a color, removed` });
+      return undefined;
+    case 'point':
+      if (missing) return undefined;
+      if (isNumeric(value.x) && isNumeric(value.y)) {
+        return { x: sanitizeNumber(value.x, -2000, 2000, 0), y: sanitizeNumber(value.y, -2000, 2000, 0) };
+      }
+      warnings.push({ path, message: `not an {x, y} point, removed` });
+      return undefined;
+    case 'vertices': {
+      if (missing) return undefined;
+      const points = sanitizeVertices(value);
+      if (!points) warnings.push({ path, message: `fewer than 3 usable points, removed` });
+      return points;
+    }
+  }
+};
+
+/**
+ * Full mode: a complete new body; missing required fields are repaired with defaults.
+ * Partial mode: an update; only the id is required and only present fields are checked.
+ */
+const normalizeBody = (
+  raw: any,
+  path: string,
+  warnings: ValidationWarning[],
+  partial: boolean
+): BodyDef | Partial<BodyDef> | null => {
+  if (!raw || typeof raw !== 'object') {
+    warnings.push({ path, message: 'not an object, dropped' });
+    return null;
+  }
+  if (raw.id === undefined || raw.id === null || raw.id === '') {
+    warnings.push({ path, message: 'has no id, dropped' });
+    return null;
+  }
+
+  const body: any = { id: String(raw.id) };
+  const typeRule = BODY_RULES.type;
+  body.type = normalizeField(typeRule, raw.type, `${path}.type`, warnings, !partial);
+
+  // An outline that lost its points cannot be built; fall back to a box
+  const checkOutline = !partial || raw.vertices !== undefined;
+  if (checkOutline && (body.type === 'polygon' || body.type === 'path') && !sanitizeVertices(raw.vertices)) {
+    warnings.push({ path: `${path}.type`, message: `${body.type} without usable vertices, changed to rectangle` });
+    body.type = 'rectangle';
+  }
+
+  (Object.keys(BODY_RULES) as (keyof BodyDef)[]).forEach(key => {
+    if (key === 'type') return;
+    const rule = BODY_RULES[key];
+    const required = !partial && (key === 'isStatic' || isRequired(rule, body.type));
+    const value = normalizeField(rule, raw[key], `${path}.${key}`, warnings, required);
+    if (value !== undefined) body[key] = value;
+  });
+  if (body.type === undefined) delete body.type;
+
+  return body;
+};
+
+const normalizeConstraint = (raw: any, path: string, warnings: ValidationWarning[]): ConstraintDef | null => {
+  if (!raw || typeof raw !== 'object') {
+    warnings.push({ path, message: 'not an object, dropped' });
+    return null;
+  }
+  const constraint: any = {};
+  (Object.keys(CONSTRAINT_RULES) as (keyof ConstraintDef)[]).forEach(key => {
+    const value = normalizeField(CONSTRAINT_RULES[key], raw[key], `${path}.${key}`, warnings, false);
+    if (value !== undefined) constraint[key] = value;
+  });
+  if (!constraint.bodyAId) {
+    warnings.push({ path, message: 'has no bodyAId, dropped' });
+    return null;
+  }
+  return constraint;
+};
+
+// Renames repeated IDs (ball, ball -> ball, ball_2) so every body stays addressable.
+// Returns, per repeated ID, the bodies it may now mean in list order; the first entry is the
+// original ID itself when the first body with it belongs to this list (rather than to the scene).
+const dedupeIds = (bodies: BodyDef[], taken: Set<string>, path: string, warnings: ValidationWarning[]): Map<string, string[]> => {
+  const copies = new Map<string, string[]>();
+  bodies.forEach((body, i) => {
+    if (!taken.has(body.id)) {
+      taken.add(body.id);
+      copies.set(body.id, [body.id]);
+      return;
+    }
+    let n = 2;
+    while (taken.has(`${body.id}_${n}`)) n++;
+    const renamed = `${body.id}_${n}`;
+    warnings.push({ path: `${path}[${i}].id`, message: `duplicate id "${body.id}", renamed to "${renamed}"` });
+    copies.set(body.id, [...(copies.get(body.id) || []), renamed]);
+    body.id = renamed;
+    taken.add(renamed);
+  });
+  copies.forEach((ids, id) => { if (ids.length === 1 && ids[0] === id) copies.delete(id); });
+  return copies;
+};
+
+// Points constraints at the renamed bodies: a joint naming a repeated ID attaches to its first
+// copy, and a joint naming it at both ends links the first and second copies
+const remapDuplicateRefs = (constraints: ConstraintDef[], copies: Map<string, string[]>) => {
+  constraints.forEach(c => {
+    const a = copies.get(c.bodyAId);
+    const b = c.bodyBId !== undefined ? copies.get(c.bodyBId) : undefined;
+    if (b) c.bodyBId = c.bodyBId === c.bodyAId ? b[1] ?? b[0] : b[0];
+    if (a) c.bodyAId = a[0];
+  });
+};
+
+const dropDanglingConstraints = (
+  constraints: ConstraintDef[],
+  bodyIds: Set<string>,
+  path: string,
+  warnings: ValidationWarning[]
+): ConstraintDef[] =>
+  constraints.filter((c, i) => {
+    const missing = [c.bodyAId, c.bodyBId].filter(id => id !== undefined && !bodyIds.has(id));
+    if (missing.length > 0) {
+      warnings.push({ path: `${path}[${i}]`, message: `references unknown body "${missing[0]}", dropped` });
+      return false;
+    }
+    // A joint needs two different ends; a body linked to itself holds nothing
+    if (c.bodyAId === c.bodyBId) {
+      warnings.push({ path: `${path}[${i}]`, message: `links "${c.bodyAId}" to itself, dropped` });
+      return false;
+    }
+    return true;
+  });
+
+const normalizeList = <T>(raw: any, path: string, warnings: ValidationWarning[], normalize: (item: any, itemPath: string) => T | null): T[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    warnings.push({ path, message: 'not a list, ignored' });
+    return [];
+  }
+  return raw.map((item, i) => normalize(item, `${path}[${i}]`)).filter((item): item is T => item !== null);
+};
+
+// Only the fields present are checked and clamped; a partial gravity keeps just the given axes
+const normalizePhysics = (raw: any, path: string, warnings: ValidationWarning[]): Partial<PhysicsState> => {
+  const physics: Partial<PhysicsState> = {};
+  const gravity = raw.gravity;
+  if (gravity && typeof gravity === 'object') {
+    const g: any = {};
+    (['x', 'y'] as const).forEach(axis => {
+      const value = normalizeField(
+        { kind: 'number', min: -GRAVITY_LIMIT, max: GRAVITY_LIMIT },
+        gravity[axis], `${path}.gravity.${axis}`, warnings, false
+      );
+      if (value !== undefined) g[axis] = value;
+    });
+    if (Object.keys(g).length > 0) physics.gravity = g;
+  }
+  (Object.keys(PHYSICS_RULES) as (keyof typeof PHYSICS_RULES)[]).forEach(key => {
+    const value = normalizeField(PHYSICS_RULES[key], raw[key], `${path}.${key}`, warnings, false);
+    if (value !== undefined) (physics as any)[key] = value;
+  });
+  return physics;
+};
+
+export interface ValidatedScene {
+  sceneConfig: SceneConfig;
+  warnings: ValidationWarning[];
+}
+
+export interface ValidatedCommand {
+  response: VoiceCommandResponse;
+  warnings: ValidationWarning[];
+}
+
+// For a single hand-edited body (e.g. from the scene editor inspector); null if unrepairable
+export const validateBody = (raw: any): { body: BodyDef | null; warnings: ValidationWarning[] } => {
+  const warnings: ValidationWarning[] = [];
+  const body = normalizeBody(raw, raw?.id ? String(raw.id) : 'body', warnings, false) as BodyDef | null;
+  return { body, warnings };
+};
+
+// For whole physics settings from files and links: missing fields take the defaults given
+export const validatePhysicsState = (raw: any, defaults: PhysicsState): { physicsState: PhysicsState; warnings: ValidationWarning[] } => {
+  const warnings: ValidationWarning[] = [];
+  const physics = raw && typeof raw === 'object' ? normalizePhysics(raw, 'physicsState', warnings) : {};
+  return {
+    physicsState: { ...defaults, ...physics, gravity: { ...defaults.gravity, ...physics.gravity } },
+    warnings,
+  };
+};
+
+// For analyzeSketch results (and anything else that claims to be a whole scene)
+export const validateScene = (raw: any): ValidatedScene => {
+  const warnings: ValidationWarning[] = [];
+  const bodies = normalizeList(raw?.bodies, 'bodies', warnings, (b, p) => normalizeBody(b, p, warnings, false) as BodyDef | null);
+  const bodyIds = new Set<string>();
+  const linked = normalizeList(raw?.constraints, 'constraints', warnings, (c, p) => normalizeConstraint(c, p, warnings));
+  remapDuplicateRefs(linked, dedupeIds(bodies, bodyIds, 'bodies', warnings));
+  const constraints = dropDanglingConstraints(
+    linked,
+    bodyIds,
+    'constraints',
+    warnings
+  );
+  return { sceneConfig: { bodies, constraints }, warnings };
+};
+
+// For voice/text command results, checked against the scene they will be merged into
+export const validateCommandResponse = (raw: any, currentScene: SceneConfig | null): ValidatedCommand => {
+  const warnings: ValidationWarning[] = [];
+  const response: VoiceCommandResponse = {};
+  if (!raw || typeof raw !== 'object') return { response, warnings: [{ path: '', message: 'empty response' }] };
+
+  if (typeof raw.summary === 'string') response.summary = raw.summary;
+
+  if (raw.physicsUpdates && typeof raw.physicsUpdates === 'object') {
+    const updates = normalizePhysics(raw.physicsUpdates, 'physicsUpdates', warnings);
+    if (Object.keys(updates).length > 0) response.physicsUpdates = updates;
+  }
+
+  const existingIds = new Set((currentScene?.bodies || []).map(b => b.id));
+
+  const removeIds = normalizeList<string>(raw.removeBodyIds, 'removeBodyIds', warnings, (id, p) => {
+    if (existingIds.has(String(id))) return String(id);
+    warnings.push({ path: p, message: `no body "${id}" to remove, ignored` });
+    return null;
+  });
+  if (removeIds.length > 0) response.removeBodyIds = removeIds;
+
+  const updated = normalizeList(raw.updatedBodies, 'updatedBodies', warnings, (b, p) => {
+    const body = normalizeBody(b, p, warnings, true);
+    if (body && !existingIds.has(body.id!)) {
+      warnings.push({ path: p, message: `no body "${body.id}" to update, ignored` });
+      return null;
+    }
+    return body as BodyDef | null;
+  });
+  if (updated.length > 0) response.updatedBodies = updated;
+
+  const added = normalizeList(raw.newBodies, 'newBodies', warnings, (b, p) => normalizeBody(b, p, warnings, false) as BodyDef | null);
+  // New IDs must not collide with bodies already in the scene or with each other
+  // (a joint in the same response means the new body, so its references follow the rename)
+  const taken = new Set(existingIds);
+  const linked = normalizeList(raw.newConstraints, 'newConstraints', warnings, (c, p) => normalizeConstraint(c, p, warnings));
+  remapDuplicateRefs(linked, dedupeIds(added, taken, 'newBodies', warnings));
+  if (added.length > 0) response.newBodies = added;
+
+  const liveIds = new Set([...existingIds, ...added.map(b => b.id)].filter(id => !removeIds.includes(id)));
+  const constraints = dropDanglingConstraints(
+    linked,
+    liveIds,
+    'newConstraints',
+    warnings
+  );
+  if (constraints.length > 0) response.newConstraints = constraints;
+
+  if (raw.plot && typeof raw.plot === 'object') {
+    const bodyIds = normalizeList<string>(raw.plot.bodyIds, 'plot.bodyIds', warnings, (id, p) => {
+      if (liveIds.has(String(id))) return String(id);
+      warnings.push({ path: p, message: `no body "${id}" to plot, ignored` });
+      return null;
+    });
+    response.plot = {
+      quantity: normalizeField(PLOT_QUANTITY_RULE, raw.plot.quantity, 'plot.quantity', warnings, true),
+      bodyIds,
+    };
+  }
+
+  return { response, warnings };
+};
+
+// One line per warning for toasts and the warnings panel
+export const formatWarning = (warning: ValidationWarning): string =>
+  warning.path ? `${warning.path}: ${warning.message}` : warning.message;
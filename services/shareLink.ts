@@ -0,0 +1,89 @@
+import { PhysicsState, SceneConfig, SceneDocument } from "../types";
+import { createSceneDocument, validateSceneDocument, migrateSceneDocument } from "./sceneDocument";
+
+// Scenes travel in the URL fragment (#scene=...), so they never reach a server.
+// Payload: scene document JSON -> deflate-raw -> base64url.
+
+const FRAGMENT_KEY = 'scene';
+
+// Long URLs get truncated by chat apps and some browsers; past this, export a file instead
+export const MAX_SHARE_URL_LENGTH = 8000;
+// A small fragment can inflate to a huge document; refuse anything past this before parsing
+const MAX_DECODED_BYTES = 1024 * 1024;
+const MAX_SHARED_BODIES = 500;
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream, limit: number): Promise<Uint8Array> => {
+  const reader = new Blob([bytes]).stream().pipeThrough(transform).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > limit) {
+      await reader.cancel();
+      throw new Error("Shared scene is too large.");
+    }
+    chunks.push(value);
+  }
+  const out = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => { out.set(chunk, offset); offset += chunk.length; });
+  return out;
+};
+
+export const encodeSceneFragment = async (sceneConfig: SceneConfig, physicsState: PhysicsState): Promise<string> => {
+  // Compact JSON: pretty-printing would cost bytes in the URL
+  const json = JSON.stringify(createSceneDocument(sceneConfig, physicsState, { name: 'Shared scene' }));
+  const compressed = await pipeBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw'), Infinity);
+  return `${FRAGMENT_KEY}=${toBase64Url(compressed)}`;
+};
+
+// Throws if the scene does not fit in a shareable URL
+export const buildShareUrl = async (sceneConfig: SceneConfig, physicsState: PhysicsState): Promise<string> => {
+  const base = `${window.location.origin}${window.location.pathname}${window.location.search}`;
+  const url = `${base}#${await encodeSceneFragment(sceneConfig, physicsState)}`;
+  if (url.length > MAX_SHARE_URL_LENGTH) {
+    throw new Error("This scene is too large for a link. Export it as a file instead.");
+  }
+  return url;
+};
+
+// Returns null when the fragment holds no scene; throws on a malformed or unsafe one
+export const decodeSceneFragment = async (hash: string): Promise<SceneDocument | null> => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const payload = params.get(FRAGMENT_KEY);
+  if (!payload) return null;
+  if (payload.length > MAX_SHARE_URL_LENGTH) throw new Error("Shared scene is too large.");
+
+  let json: string;
+  try {
+    const inflated = await pipeBytes(fromBase64Url(payload), new DecompressionStream('deflate-raw'), MAX_DECODED_BYTES);
+    json = new TextDecoder().decode(inflated);
+  } catch (e: any) {
+    if (e.message === "Shared scene is too large.") throw e;
+    throw new Error("Shared link is damaged or incomplete.");
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Shared link is damaged or incomplete.");
+  }
+  const doc = validateSceneDocument(migrateSceneDocument(raw));
+  if (doc.sceneConfig.bodies.length > MAX_SHARED_BODIES) throw new Error("Shared scene has too many bodies.");
+  return doc;
+};
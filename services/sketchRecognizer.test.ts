@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { RasterImage, recognizeSketch } from './sketchRecognizer';
+
+// Fixture pages: white paper with dark pen strokes, drawn pixel by pixel
+const PEN = 3;
+
+interface Page extends RasterImage {
+  data: Uint8ClampedArray;
+}
+
+const blankPage = (width = 320, height = 240): Page => ({ width, height, data: new Uint8ClampedArray(width * height * 4).fill(255) });
+
+const ink = (page: Page, x: number, y: number) => {
+  const px = Math.round(x);
+  const py = Math.round(y);
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const nx = px + dx;
+      const ny = py + dy;
+      if (nx < 0 || ny < 0 || nx >= page.width || ny >= page.height) continue;
+      const i = (ny * page.width + nx) * 4;
+      page.data[i] = page.data[i + 1] = page.data[i + 2] = 30;
+    }
+  }
+};
+
+const drawLine = (page: Page, x0: number, y0: number, x1: number, y1: number) => {
+  const steps = Math.ceil(Math.hypot(x1 - x0, y1 - y0) * 2);
+  for (let s = 0; s <= steps; s++) ink(page, x0 + ((x1 - x0) * s) / steps, y0 + ((y1 - y0) * s) / steps);
+};
+
+const drawCircle = (page: Page, cx: number, cy: number, r: number) => {
+  const steps = Math.ceil(2 * Math.PI * r * 2);
+  for (let s = 0; s < steps; s++) ink(page, cx + r * Math.cos((2 * Math.PI * s) / steps), cy + r * Math.sin((2 * Math.PI * s) / steps));
+};
+
+const drawRect = (page: Page, x: number, y: number, w: number, h: number) => {
+  drawLine(page, x, y, x + w, y);
+  drawLine(page, x + w, y, x + w, y + h);
+  drawLine(page, x + w, y + h, x, y + h);
+  drawLine(page, x, y + h, x, y);
+};
+
+describe('recognizeSketch', () => {
+  it('reads a drawn circle as a dynamic ball', () => {
+    const page = blankPage();
+    drawCircle(page, 160, 100, 40);
+    const { bodies } = recognizeSketch(page);
+    expect(bodies).toHaveLength(1);
+    expect(bodies[0]).toMatchObject({ id: 'ball_1', type: 'circle', isStatic: false });
+    expect(bodies[0].x).toBeCloseTo(160, -1);
+    expect(bodies[0].y).toBeCloseTo(100, -1);
+    expect(Math.abs(bodies[0].radius! - 40)).toBeLessThan(PEN);
+  });
+
+  it('reads a drawn square as a dynamic box', () => {
+    const page = blankPage();
+    drawRect(page, 100, 60, 80, 80);
+    const { bodies } = recognizeSketch(page);
+    expect(bodies).toHaveLength(1);
+    const [box] = bodies;
+    expect(box).toMatchObject({ id: 'box_1', type: 'rectangle', isStatic: false });
+    expect(box.x).toBeCloseTo(140, -1);
+    expect(box.y).toBeCloseTo(100, -1);
+    expect(Math.abs(box.width! - 80)).toBeLessThan(2 * PEN);
+    expect(Math.abs(box.height! - 80)).toBeLessThan(2 * PEN);
+    expect(Math.abs(Math.sin(box.angle || 0))).toBeLessThan(0.05);
+  });
+
+  it('reads a single line as a static floor', () => {
+    const page = blankPage();
+    drawLine(page, 40, 200, 280, 200);
+    const { bodies } = recognizeSketch(page);
+    expect(bodies).toHaveLength(1);
+    const [floor] = bodies;
+    expect(floor).toMatchObject({ id: 'floor_1', type: 'rectangle', isStatic: true });
+    expect(floor.x).toBeCloseTo(160, -1);
+    expect(floor.y).toBeCloseTo(200, -1);
+    expect(Math.max(floor.width!, floor.height!)).toBeGreaterThan(220);
+  });
+
+  it('reads a vertical line as a wall', () => {
+    const page = blankPage();
+    drawLine(page, 260, 30, 260, 210);
+    const [wall] = recognizeSketch(page).bodies;
+    expect(wall).toMatchObject({ id: 'wall_1', type: 'rectangle', isStatic: true });
+  });
+
+  it('finds every shape on a page, top to bottom', () => {
+    const page = blankPage();
+    drawCircle(page, 80, 60, 25);
+    drawRect(page, 200, 90, 50, 50);
+    drawLine(page, 20, 220, 300, 220);
+    expect(recognizeSketch(page).bodies.map(b => b.type)).toEqual(['circle', 'rectangle', 'rectangle']);
+  });
+
+  it('throws on a blank page', () => {
+    expect(() => recognizeSketch(blankPage())).toThrow("No shapes found in the sketch.");
+  });
+});
@@ -0,0 +1,463 @@
+import { BodyDef, Point, SceneConfig } from "../types";
+import { letterbox } from "./frameTransform";
+
+// Offline sketch recognizer: classical computer vision on raw pixels, no DOM and no network.
+// Threshold the ink, split it into connected strokes, then fit each stroke as a circle,
+// rectangle, polygon, outline or a chain of wall segments, in the image's own pixels.
+
+// RGBA pixels row by row, the layout of a canvas ImageData
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+// Ink is anything this much darker than its neighbourhood (Bradley-Roth adaptive threshold)
+const INK_CONTRAST = 0.15;
+// Strokes smaller than this share of the image are specks, shadows or text
+const MIN_STROKE_SHARE = 0.0002;
+const MIN_STROKE_EXTENT = 0.03;
+// Segments of an open stroke may bend this far (share of the stroke's size) before it is split again
+const SEGMENT_TOLERANCE = 0.06;
+const MAX_SEGMENT_DEPTH = 3;
+// World px
+const WALL_THICKNESS = 12;
+const MAX_PATH_VERTICES = 24;
+
+interface Stroke {
+  pixels: number[]; // indices into the image
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const toGray = (image: RasterImage): Float32Array => {
+  const gray = new Float32Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// Local-mean threshold, so uneven lighting across a photographed page doesn't swallow strokes
+const thresholdInk = (gray: Float32Array, width: number, height: number): Uint8Array => {
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const radius = Math.max(8, Math.round(Math.min(width, height) / 16));
+  const ink = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      if (gray[y * width + x] < mean * (1 - INK_CONTRAST)) ink[y * width + x] = 1;
+    }
+  }
+  return ink;
+};
+
+// Grow ink by one pixel so pen strokes with small gaps stay one shape
+const dilate = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) out[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+  return out;
+};
+
+// 8-connected components of the ink mask
+const findStrokes = (mask: Uint8Array, width: number, height: number): Stroke[] => {
+  const seen = new Uint8Array(mask.length);
+  const strokes: Stroke[] = [];
+  const stack: number[] = [];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const stroke: Stroke = { pixels: [], minX: width, minY: height, maxX: 0, maxY: 0 };
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      stroke.pixels.push(index);
+      stroke.minX = Math.min(stroke.minX, x);
+      stroke.maxX = Math.max(stroke.maxX, x);
+      stroke.minY = Math.min(stroke.minY, y);
+      stroke.maxY = Math.max(stroke.maxY, y);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const next = ny * width + nx;
+          if (mask[next] && !seen[next]) {
+            seen[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+    strokes.push(stroke);
+  }
+  return strokes;
+};
+
+interface Region {
+  filledArea: number; // stroke plus everything it encloses
+  strokeArea: number;
+  boundary: Point[]; // outer edge pixels of the filled region
+}
+
+// Fills whatever the stroke encloses (a drawn outline becomes a solid) and finds its outer edge
+const fillStroke = (stroke: Stroke, imageWidth: number): Region => {
+  // One pixel of padding so the outside is connected all the way round
+  const w = stroke.maxX - stroke.minX + 3;
+  const h = stroke.maxY - stroke.minY + 3;
+  const local = new Uint8Array(w * h); // 1 = ink, 2 = outside
+  stroke.pixels.forEach(index => {
+    const x = index % imageWidth;
+    const y = (index - x) / imageWidth;
+    local[(y - stroke.minY + 1) * w + (x - stroke.minX + 1)] = 1;
+  });
+
+  const stack = [0];
+  local[0] = 2;
+  while (stack.length > 0) {
+    const index = stack.pop()!;
+    const x = index % w;
+    const y = (index - x) / w;
+    const neighbours = [x > 0 ? index - 1 : -1, x < w - 1 ? index + 1 : -1, y > 0 ? index - w : -1, y < h - 1 ? index + w : -1];
+    neighbours.forEach(next => {
+      if (next >= 0 && local[next] === 0) {
+        local[next] = 2;
+        stack.push(next);
+      }
+    });
+  }
+
+  let filledArea = 0;
+  const boundary: Point[] = [];
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const index = y * w + x;
+      if (local[index] === 2) continue;
+      filledArea++;
+      if (local[index - 1] === 2 || local[index + 1] === 2 || local[index - w] === 2 || local[index + w] === 2) {
+        boundary.push({ x: x - 1 + stroke.minX + 0.5, y: y - 1 + stroke.minY + 0.5 });
+      }
+    }
+  }
+  return { filledArea, strokeArea: stroke.pixels.length, boundary };
+};
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Andrew's monotone chain, counter-clockwise in image coordinates
+const convexHull = (points: Point[]): Point[] => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+  const lower: Point[] = [];
+  sorted.forEach(p => {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  });
+  const upper: Point[] = [];
+  [...sorted].reverse().forEach(p => {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  });
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
+
+const polygonArea = (points: Point[]): number => {
+  let area = 0;
+  points.forEach((p, i) => {
+    const q = points[(i + 1) % points.length];
+    area += p.x * q.y - q.x * p.y;
+  });
+  return Math.abs(area) / 2;
+};
+
+const polygonPerimeter = (points: Point[]): number =>
+  points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length];
+    return sum + Math.hypot(q.x - p.x, q.y - p.y);
+  }, 0);
+
+const mean = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+interface OrientedBox {
+  center: Point;
+  width: number; // along angle
+  height: number;
+  angle: number;
+}
+
+// Smallest rectangle around the hull; one of its sides always lies along a hull edge
+const minAreaBox = (hull: Point[]): OrientedBox => {
+  let best: OrientedBox | null = null;
+  hull.forEach((p, i) => {
+    const q = hull[(i + 1) % hull.length];
+    const angle = Math.atan2(q.y - p.y, q.x - p.x);
+    const ux = Math.cos(angle);
+    const uy = Math.sin(angle);
+    let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+    hull.forEach(h => {
+      const u = h.x * ux + h.y * uy;
+      const v = -h.x * uy + h.y * ux;
+      minU = Math.min(minU, u); maxU = Math.max(maxU, u);
+      minV = Math.min(minV, v); maxV = Math.max(maxV, v);
+    });
+    const width = maxU - minU;
+    const height = maxV - minV;
+    if (!best || width * height < best.width * best.height) {
+      const cu = (minU + maxU) / 2;
+      const cv = (minV + maxV) / 2;
+      best = { center: { x: cu * ux - cv * uy, y: cu * uy + cv * ux }, width, height, angle };
+    }
+  });
+  return best!;
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Douglas-Peucker on an open polyline
+const simplifyPath = (points: Point[], epsilon: number): Point[] => {
+  if (points.length < 3) return points;
+  let farthest = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], points[0], points[points.length - 1]);
+    if (d > farthest) {
+      farthest = d;
+      index = i;
+    }
+  }
+  if (farthest <= epsilon) return [points[0], points[points.length - 1]];
+  return [...simplifyPath(points.slice(0, index + 1), epsilon).slice(0, -1), ...simplifyPath(points.slice(index), epsilon)];
+};
+
+// Douglas-Peucker on a closed polygon, split at the vertex farthest from the first
+const simplifyClosed = (points: Point[], epsilon: number): Point[] => {
+  let split = 0;
+  let farthest = 0;
+  points.forEach((p, i) => {
+    const d = Math.hypot(p.x - points[0].x, p.y - points[0].y);
+    if (d > farthest) {
+      farthest = d;
+      split = i;
+    }
+  });
+  const first = simplifyPath(points.slice(0, split + 1), epsilon);
+  const second = simplifyPath([...points.slice(split), points[0]], epsilon);
+  return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+// Ordered outline of a (roughly star-shaped) region: the farthest edge pixel in each direction from its center
+const traceOutline = (boundary: Point[], center: Point, count: number): Point[] => {
+  const bins: (Point | null)[] = new Array(count).fill(null);
+  const reach = new Array(count).fill(-1);
+  boundary.forEach(p => {
+    const angle = Math.atan2(p.y - center.y, p.x - center.x);
+    const bin = Math.min(count - 1, Math.floor(((angle + Math.PI) / (2 * Math.PI)) * count));
+    const d = Math.hypot(p.x - center.x, p.y - center.y);
+    if (d > reach[bin]) {
+      reach[bin] = d;
+      bins[bin] = p;
+    }
+  });
+  return bins.filter((p): p is Point => p !== null);
+};
+
+// Principal axis of a point set, and where the points fall along it
+const principalAxis = (points: Point[]) => {
+  const c = mean(points);
+  let sxx = 0, syy = 0, sxy = 0;
+  points.forEach(p => {
+    sxx += (p.x - c.x) ** 2;
+    syy += (p.y - c.y) ** 2;
+    sxy += (p.x - c.x) * (p.y - c.y);
+  });
+  const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  const axis = { x: Math.cos(angle), y: Math.sin(angle) };
+  const along = points.map(p => (p.x - c.x) * axis.x + (p.y - c.y) * axis.y);
+  const across = points.map(p => Math.abs(-(p.x - c.x) * axis.y + (p.y - c.y) * axis.x));
+  return { center: c, axis, along, across };
+};
+
+// Splits an open stroke (a line, an L, a U-shaped bucket) into straight segments
+const fitSegments = (points: Point[], tolerance: number, depth = 0): [Point, Point][] => {
+  const { center, axis, along, across } = principalAxis(points);
+  const minT = Math.min(...along);
+  const maxT = Math.max(...along);
+  const worst = across.indexOf(Math.max(...across));
+  if (across[worst] <= tolerance || depth >= MAX_SEGMENT_DEPTH || points.length < 20) {
+    return [[
+      { x: center.x + axis.x * minT, y: center.y + axis.y * minT },
+      { x: center.x + axis.x * maxT, y: center.y + axis.y * maxT },
+    ]];
+  }
+  // Split where the stroke strays farthest from a straight line
+  const splitT = along[worst] > minT && along[worst] < maxT ? along[worst] : (minT + maxT) / 2;
+  const before = points.filter((_, i) => along[i] <= splitT);
+  const after = points.filter((_, i) => along[i] > splitT);
+  if (before.length === 0 || after.length === 0) return fitSegments(points, Infinity, depth);
+  return [...fitSegments(before, tolerance, depth + 1), ...fitSegments(after, tolerance, depth + 1)];
+};
+
+const wallFromSegment = ([start, end]: [Point, Point], thickness: number): Partial<BodyDef> => ({
+  type: 'rectangle',
+  x: (start.x + end.x) / 2,
+  y: (start.y + end.y) / 2,
+  width: Math.max(Math.hypot(end.x - start.x, end.y - start.y), thickness),
+  height: thickness,
+  angle: Math.atan2(end.y - start.y, end.x - start.x),
+  isStatic: true,
+});
+
+// Outline vertices relative to their mean (which becomes the body's x, y)
+const relativeVertices = (outline: Point[]): { center: Point; vertices: Point[] } => {
+  const center = mean(outline);
+  return { center, vertices: outline.map(p => ({ x: p.x - center.x, y: p.y - center.y })) };
+};
+
+// One stroke -> zero or more raw bodies in image px, named by what they look like
+const fitStroke = (stroke: Stroke, image: RasterImage, wallThickness: number): Partial<BodyDef>[] => {
+  const region = fillStroke(stroke, image.width);
+  if (region.boundary.length < 8) return [];
+  const hull = convexHull(region.boundary);
+  if (hull.length < 3) return [];
+  const hullArea = polygonArea(hull);
+  const hullPerimeter = polygonPerimeter(hull);
+  const box = minAreaBox(hull);
+  const major = Math.max(box.width, box.height);
+  const minor = Math.min(box.width, box.height);
+  const enclosed = (region.filledArea - region.strokeArea) / region.filledArea;
+  const solid = region.filledArea / Math.max(hullArea, 1);
+
+  // Open strokes (nothing enclosed, not a scribbled-in blob) are walls, floors and ramps drawn as lines
+  const isOpen = enclosed < 0.25 && (minor < major * 0.25 || solid < 0.6);
+  if (isOpen) {
+    const points = stroke.pixels.map(index => {
+      const x = index % image.width;
+      return { x: x + 0.5, y: (index - x) / image.width + 0.5 };
+    });
+    return fitSegments(points, Math.max(3, major * SEGMENT_TOLERANCE)).map(segment => wallFromSegment(segment, wallThickness));
+  }
+
+  // Circle: round hull and every edge pixel about the same distance from the center
+  const center = mean(hull);
+  const radii = region.boundary.map(p => Math.hypot(p.x - center.x, p.y - center.y));
+  const meanRadius = radii.reduce((sum, r) => sum + r, 0) / radii.length;
+  const spread = Math.sqrt(radii.reduce((sum, r) => sum + (r - meanRadius) ** 2, 0) / radii.length) / meanRadius;
+  const circularity = (4 * Math.PI * hullArea) / (hullPerimeter * hullPerimeter);
+  if (circularity > 0.86 && spread < 0.1) {
+    return [{ type: 'circle', x: center.x, y: center.y, radius: meanRadius, isStatic: false }];
+  }
+
+  // Rectangle: fills its bounding box. Long thin ones are platforms.
+  if (region.filledArea / (box.width * box.height) > 0.85) {
+    return [{
+      type: 'rectangle',
+      x: box.center.x,
+      y: box.center.y,
+      width: box.width,
+      height: box.height,
+      angle: box.angle,
+      isStatic: major > minor * 5,
+    }];
+  }
+
+  // Convex outline: a polygon with few corners. Triangles are ramps and stay put.
+  if (solid > 0.9) {
+    const corners = simplifyClosed(hull, hullPerimeter * 0.04);
+    if (corners.length >= 3) {
+      const { center: c, vertices } = relativeVertices(corners);
+      return [{ type: 'polygon', x: c.x, y: c.y, vertices, isStatic: corners.length === 3 }];
+    }
+  }
+
+  // Anything else (a rock, a blob) keeps its traced outline
+  const outline = simplifyClosed(traceOutline(region.boundary, center, MAX_PATH_VERTICES * 2), Math.max(1, major * 0.01));
+  if (outline.length < 3) return [];
+  const { center: c, vertices } = relativeVertices(outline.slice(0, MAX_PATH_VERTICES));
+  return [{ type: 'path', x: c.x, y: c.y, vertices, isStatic: false }];
+};
+
+const ID_PREFIXES: Record<string, string> = {
+  circle: 'ball',
+  rectangle: 'box',
+  polygon: 'shape',
+  path: 'rock',
+};
+
+const nameBody = (body: Partial<BodyDef>): string => {
+  if (body.type === 'rectangle' && body.isStatic) {
+    return Math.abs(Math.sin(body.angle || 0)) > 0.9 ? 'wall' : Math.abs(Math.sin(body.angle || 0)) > 0.1 ? 'ramp' : 'floor';
+  }
+  if (body.type === 'polygon' && body.vertices?.length === 3) return 'ramp';
+  return ID_PREFIXES[body.type || 'rectangle'];
+};
+
+// Returns raw scene JSON in image px like a provider; geminiService validates it and maps it
+// into the world. Throws if the image holds nothing that looks like a drawing.
+export const recognizeSketch = (image: RasterImage): SceneConfig => {
+  const { width, height } = image;
+  if (width < 16 || height < 16) throw new Error("Image is too small to read.");
+
+  const ink = dilate(thresholdInk(toGray(image), width, height), width, height);
+  const minPixels = Math.max(20, width * height * MIN_STROKE_SHARE);
+  const minExtent = Math.min(width, height) * MIN_STROKE_EXTENT;
+  const strokes = findStrokes(ink, width, height).filter(stroke => {
+    const w = stroke.maxX - stroke.minX + 1;
+    const h = stroke.maxY - stroke.minY + 1;
+    if (stroke.pixels.length < minPixels || Math.max(w, h) < minExtent) return false;
+    // The edge of the paper or a frame around the whole photo is not part of the drawing
+    return !(w > width * 0.9 && h > height * 0.9);
+  });
+
+  // Walls come out WALL_THICKNESS thick once the image is fit into the world
+  const wallThickness = WALL_THICKNESS / letterbox(image).scale;
+  const raw = strokes
+    .sort((a, b) => a.minY - b.minY || a.minX - b.minX)
+    .flatMap(stroke => fitStroke(stroke, image, wallThickness));
+  if (raw.length === 0) throw new Error("No shapes found in the sketch.");
+
+  const counts: Record<string, number> = {};
+  const bodies = raw.map(body => {
+    const name = nameBody(body);
+    counts[name] = (counts[name] || 0) + 1;
+    return { ...body, id: `${name}_${counts[name]}` } as BodyDef;
+  });
+  return { bodies, constraints: [] };
+};
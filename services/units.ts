@@ -0,0 +1,19 @@
+// World scale shared by the engine, overlays, the ruler and the model prompts.
+// Scene coordinates stay in pixels on the 800x600 canvas (8 m x 6 m).
+export const PIXELS_PER_METER = 100;
+
+export const WORLD_WIDTH_PX = 800;
+export const WORLD_HEIGHT_PX = 600;
+
+// Matter's gravity (scale 0.001) accelerates bodies at gravity.y * 1000 px/s²
+const MATTER_GRAVITY_PX_PER_S2 = 1000;
+
+export const metersToPixels = (meters: number): number => meters * PIXELS_PER_METER;
+export const pixelsToMeters = (pixels: number): number => pixels / PIXELS_PER_METER;
+
+// m/s² -> Matter engine.gravity component
+export const gravityToMatter = (metersPerSecondSquared: number): number =>
+  metersPerSecondSquared * PIXELS_PER_METER / MATTER_GRAVITY_PX_PER_S2;
+
+// For prompts and readouts, e.g. 250 -> "2.50 m"
+export const formatMeters = (pixels: number): string => `${pixelsToMeters(pixels).toFixed(2)} m`;
@@ -5,24 +5,42 @@ export interface Point {
 
 export interface BodyDef {
   id: string;
-  type: 'circle' | 'rectangle';
+  type: 'circle' | 'rectangle' | 'polygon' | 'path';
   x: number;
   y: number;
   width?: number; // for rectangle
   height?: number; // for rectangle
   radius?: number; // for circle
+  vertices?: Point[]; // for polygon/path, relative to (x, y). Concave outlines are decomposed.
   angle?: number;
   isStatic: boolean;
   color?: string;
   friction?: number; // 0.0 (ice) to 1.0 (sandpaper)
+  mass?: number; // kg, overrides density when set
+  density?: number; // Matter.js density (default 0.001)
+  restitution?: number; // 0.0 (clay) to 1.0 (superball)
+  frictionAir?: number; // air drag, 0.0 (vacuum) to 1.0 (syrup)
 }
 
+// Untyped constraints are a plain Matter link (stiff rod or, with low stiffness, a soft spring)
+// - spring: elastic link with damping
+// - rope: goes slack below length, taut at length (never pushes)
+// - revolute: pin joint; bodies rotate freely about the shared point
+// - prismatic: bodyA slides along axis through the anchor, length is the travel
+// - motor: revolute pin that drives bodyA at motorSpeed
+export type JointType = 'spring' | 'rope' | 'revolute' | 'prismatic' | 'motor';
+
 export interface ConstraintDef {
+  type?: JointType;
   bodyAId: string;
   bodyBId?: string; // Added to support connecting two bodies
-  pointB?: Point;
+  pointA?: Point; // offset from bodyA's center
+  pointB?: Point; // offset from bodyB's center, or a world point when there is no bodyB
   stiffness?: number;
   length?: number;
+  damping?: number; // spring: 0 (bounces forever) to 1
+  axis?: Point; // prismatic: slide direction, normalized when used
+  motorSpeed?: number; // motor: rad/s, positive is clockwise on screen
 }
 
 export interface SceneConfig {
@@ -34,6 +52,15 @@ export interface PhysicsState {
   gravity: { x: number; y: number };
   timeScale: number;
   enableCollisionEffects: boolean;
+  // Opt-in reproducible mode: the same scene gives the same trajectories on every device
+  fixedTimestep?: boolean;
+  substeps?: number; // engine updates per 1/60 s tick in fixed-timestep mode (1-8)
+}
+
+// A problem found (and repaired or dropped) while validating model output
+export interface ValidationWarning {
+  path: string; // e.g. "newBodies[1].radius"
+  message: string;
 }
 
 export interface VoiceCommandResponse {
@@ -43,10 +70,78 @@ export interface VoiceCommandResponse {
   updatedBodies?: BodyDef[]; // NEW: Supports resizing/modifying existing bodies
   newConstraints?: ConstraintDef[];
   removeBodyIds?: string[]; // IDs of bodies to delete
+  plot?: PlotRequest; // What the chart panel should show (view-only)
+  warnings?: ValidationWarning[]; // Set by geminiService after validation, never by the model
+}
+
+// Quantities the live chart plots against simulated time
+export type PlotQuantity = 'height' | 'speed' | 'energy';
+
+export interface PlotRequest {
+  quantity: PlotQuantity;
+  bodyIds: string[]; // bodies plotted for height/speed; energy is always the whole system
+}
+
+// Teaching overlays drawn over the simulation (view-only, not part of the scene)
+export interface OverlayFlags {
+  velocity: boolean;
+  acceleration: boolean;
+  gravity: boolean; // weight force m·g
+  contacts: boolean; // normal forces at contact points
+  readouts: boolean; // numeric values in SI units
+}
+
+export interface MeasurementOverlays {
+  global: OverlayFlags;
+  bodies: Record<string, Partial<OverlayFlags>>; // per-body additions to global, keyed by BodyDef id
 }
 
 export enum AppMode {
   CAMERA = 'CAMERA',
   ANALYZING = 'ANALYZING',
+  REVIEW = 'REVIEW', // Detections shown over the photo for correction before physics starts
   SIMULATION = 'SIMULATION',
-}
\ No newline at end of file
+  EDIT = 'EDIT', // Physics paused, bodies edited by hand
+}
+
+export interface SceneMetadata {
+  name: string;
+  createdAt: string; // ISO 8601
+  description?: string;
+}
+
+// On-disk / shareable wrapper around a scene. Bump SCENE_DOCUMENT_VERSION
+// in services/sceneDocument.ts and add a migration when this shape changes.
+export interface SceneDocument {
+  format: 'living-notebook-scene';
+  version: number;
+  metadata: SceneMetadata;
+  sceneConfig: SceneConfig;
+  physicsState: PhysicsState;
+}
+
+// One earlier command in this session, sent back to the model so follow-ups
+// like "make it bigger" or "do that again but red" can be resolved
+export interface ConversationTurn {
+  transcript: string;
+  summary: string;
+  touchedIds: string[]; // bodies the command added, changed or removed
+}
+
+export interface CommandLogEntry {
+  at: string; // ISO 8601
+  transcript: string;
+  summary: string;
+}
+
+// A simulated sketch saved in the local library (IndexedDB)
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+  thumbnail: string; // base64 JPEG captured by handleCapture
+  sceneConfig: SceneConfig;
+  physicsState: PhysicsState;
+  commandLog: CommandLogEntry[];
+}